@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { nagToSymbol, toggleNag } from '../services/PgnParser';
+import { type MoveNode, type MoveAnnotations } from '../services/MoveTreeService';
+
+interface AnnotationEditorProps {
+  node: MoveNode;
+  gameComment?: string;
+  onAnnotate: (nodeId: string, annotations: MoveAnnotations) => void;
+  onGameCommentChange: (comment: string | undefined) => void;
+  // The field the comment shortcut jumps to: the comment after the move, or the game comment at the start
+  commentRef?: React.Ref<HTMLTextAreaElement>;
+}
+
+interface NagOption {
+  nag: number;
+  title: string;
+}
+
+const MOVE_NAGS: NagOption[] = [
+  { nag: 1, title: 'Good move' },
+  { nag: 2, title: 'Mistake' },
+  { nag: 3, title: 'Brilliant move' },
+  { nag: 4, title: 'Blunder' },
+  { nag: 5, title: 'Interesting move' },
+  { nag: 6, title: 'Dubious move' },
+  { nag: 7, title: 'Only move' }
+];
+
+const POSITION_NAGS: NagOption[] = [
+  { nag: 10, title: 'Equal position' },
+  { nag: 13, title: 'Unclear position' },
+  { nag: 14, title: 'White is slightly better' },
+  { nag: 15, title: 'Black is slightly better' },
+  { nag: 16, title: 'White is better' },
+  { nag: 17, title: 'Black is better' },
+  { nag: 18, title: 'White is winning' },
+  { nag: 19, title: 'Black is winning' }
+];
+
+// NAGs for White; the NAG for Black is the next number
+const SIDE_NAGS: NagOption[] = [
+  { nag: 32, title: 'Development advantage' },
+  { nag: 36, title: 'Initiative' },
+  { nag: 40, title: 'Attack' },
+  { nag: 132, title: 'Counterplay' },
+  { nag: 138, title: 'Time trouble' }
+];
+
+const OTHER_NAGS: NagOption[] = [
+  { nag: 140, title: 'With the idea' },
+  { nag: 146, title: 'Novelty' }
+];
+
+// Empty text removes the comment
+const toComment = (text: string) => text.trim() || undefined;
+
+// Whether the move starts or ends a variation, where its comments read as
+// text around the variation
+const variationPosition = (node: MoveNode) => {
+  const siblings = node.parent?.children ?? [];
+  return {
+    startsVariation: siblings.indexOf(node) > 0,
+    endsVariation: !node.isMainline && node.children.length === 0
+  };
+};
+
+const CommentField: React.FC<{
+  label: string;
+  value?: string;
+  onSave: (comment: string | undefined) => void;
+  inputRef?: React.Ref<HTMLTextAreaElement>;
+}> = ({ label, value, onSave, inputRef }) => {
+  const [text, setText] = useState(value ?? '');
+
+  // Follow changes made elsewhere, such as undo
+  useEffect(() => {
+    setText(value ?? '');
+  }, [value]);
+
+  return (
+    <label className="block">
+      <span className="block text-xs text-gray-400 mb-1">{label}</span>
+      <textarea
+        ref={inputRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        // Saved when the field is left, so each comment is one undo step
+        onBlur={() => {
+          if (toComment(text) !== value) onSave(toComment(text));
+        }}
+        rows={2}
+        className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white resize-y"
+      />
+    </label>
+  );
+};
+
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ node, gameComment, onAnnotate, onGameCommentChange, commentRef }) => {
+  if (!node.parent) {
+    return (
+      <div className="mt-4 border-t border-gray-800 pt-3">
+        <CommentField label="Game comment" value={gameComment} onSave={onGameCommentChange} inputRef={commentRef} />
+      </div>
+    );
+  }
+
+  const nags = node.nags ?? [];
+  const isWhiteMove = node.ply % 2 === 1;
+  const { startsVariation, endsVariation } = variationPosition(node);
+  // The move before this one in its line, none for the first move of the game
+  const previous = node.parent.parent ? node.parent : undefined;
+
+  const renderNags = (options: NagOption[], offset: number = 0) => (
+    <div className="flex flex-wrap gap-1">
+      {options.map(({ nag, title }) => {
+        const value = nag + offset;
+        const isActive = nags.includes(value);
+        return (
+          <button
+            key={value}
+            onClick={() => onAnnotate(node.id, { nags: toggleNag(nags, value) })}
+            className={`min-w-8 px-2 py-0.5 rounded text-sm ${
+              isActive ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+            title={title}
+          >
+            {nagToSymbol(value)}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="mt-4 border-t border-gray-800 pt-3 space-y-2">
+      <div className="text-sm text-gray-300">
+        Annotate {Math.ceil(node.ply / 2)}{isWhiteMove ? '.' : '...'} {node.san}
+      </div>
+      {renderNags(MOVE_NAGS)}
+      {renderNags(POSITION_NAGS)}
+      {renderNags(SIDE_NAGS, isWhiteMove ? 0 : 1)}
+      {renderNags(OTHER_NAGS)}
+      {startsVariation ? (
+        <CommentField
+          label="Text before variation"
+          value={node.commentBefore}
+          onSave={(commentBefore) => onAnnotate(node.id, { commentBefore })}
+        />
+      ) : (
+        // PGN keeps text between two moves as the comment after the first,
+        // so that is where the text before this move is stored
+        <CommentField
+          label={previous ? 'Comment before move' : 'Game comment'}
+          value={previous ? previous.commentAfter : gameComment}
+          onSave={(comment) => previous ? onAnnotate(previous.id, { commentAfter: comment }) : onGameCommentChange(comment)}
+        />
+      )}
+      <CommentField
+        label={endsVariation ? 'Text after variation' : 'Comment after move'}
+        value={node.commentAfter}
+        onSave={(commentAfter) => onAnnotate(node.id, { commentAfter })}
+        inputRef={commentRef}
+      />
+    </div>
+  );
+};
+
+export default AnnotationEditor;
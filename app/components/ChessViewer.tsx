@@ -1,20 +1,47 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import React, { useState, useEffect, useCallback, useRef, forwardRef, useImperativeHandle } from 'react';
 import { Chess } from 'chess.js';
 import { Chessboard } from 'react-chessboard';
 import type { Square } from 'chess.js';
-import { type AnalysisMove, type AnalysisInfo, type EngineSettings } from '../services/ChessEngineService';
+import {
+  DEFAULT_ENGINE_SETTINGS,
+  formatScore,
+  getDisplayScore,
+  getExpectedScore,
+  type AnalysisMove,
+  type AnalysisInfo,
+  type AnalysisOptions,
+  type EngineSettings
+} from '../services/ChessEngineService';
+import { type UciOption } from '../services/UciProtocol';
 import { type PositionObserver } from '../services/GameManager';
-import { type PgnGame } from '../services/PgnService';
+import { type PgnGame, type PgnDiagnostic, type BoardShape, type ShapeColor } from '../services/PgnService';
+import { toggleShape } from '../services/PgnCommentCommands';
+import { ShortcutService } from '../services/ShortcutService';
+import { CommandRegistry, type Command } from '../services/CommandRegistry';
+import { formatClock, getClocks, parseTimeControl } from '../services/GameClock';
 import { type AnalysisObserver } from '../services/EngineAnalysisService';
-import { type NavigationObserver, type NavigationCommand } from '../services/NavigationService';
+import {
+  DEFAULT_AUTOPLAY_SETTINGS,
+  type AutoplaySettings,
+  type NavigationObserver,
+  type NavigationCommand,
+  type VariationChoice
+} from '../services/NavigationService';
 import { type OpeningMove, type OpeningPosition } from '../services/OpeningBookService';
 import GameList from './GameList';
 import { type MoveTreeObserver } from '../services/MoveTreeService';
+import { type EditHistoryObserver } from '../services/EditHistoryService';
 import { BoardManager, type BoardState } from '../services/BoardManager';
 import MoveTree from './MoveTree';
+import AnnotationEditor from './AnnotationEditor';
 import OpeningBook from './OpeningBook';
+import ImportDialog from './ImportDialog';
+import ImportProgress from './ImportProgress';
+import ImportReport from './ImportReport';
+import EngineSettingsPanel from './EngineSettingsPanel';
+import { type PgnImportOptions, type PgnImportProgress } from '../services/PgnImportService';
 import type { GameFilter } from '../services/GameListService';
 
 interface Move {
@@ -23,16 +50,46 @@ interface Move {
   variations: Move[][];
 }
 
+// Translucent like the arrows react-chessboard draws itself
+const SHAPE_BRUSHES: Record<ShapeColor, string> = {
+  G: 'rgba(21, 120, 27, 0.8)',
+  R: 'rgba(136, 32, 32, 0.8)',
+  Y: 'rgba(230, 143, 0, 0.8)',
+  B: 'rgba(0, 48, 136, 0.8)'
+};
+
+const shapeColor = (e: React.MouseEvent): ShapeColor => {
+  if (e.shiftKey && e.altKey) return 'Y';
+  if (e.shiftKey) return 'R';
+  if (e.altKey) return 'B';
+  return 'G';
+};
+
+const shapeArrows = (shapes: BoardShape[]): [Square, Square, string][] =>
+  shapes.flatMap(({ color, from, to }) => (to ? [[from, to, SHAPE_BRUSHES[color]] as [Square, Square, string]] : []));
+
+// Marked squares are drawn as a ring inside the square
+const shapeSquareStyles = (shapes: BoardShape[]): Record<string, React.CSSProperties> =>
+  Object.fromEntries(shapes.filter(shape => !shape.to).map(({ color, from }) => [from, {
+    background: `radial-gradient(circle, transparent 58%, ${SHAPE_BRUSHES[color]} 60%, ${SHAPE_BRUSHES[color]} 68%, transparent 70%)`
+  }]));
+
+// Autoplay speeds offered besides following the clock, in milliseconds
+const AUTOPLAY_INTERVALS = [500, 1000, 1500, 3000, 5000];
+
 export interface ChessViewerProps {
   id: string;
   name?: string;
   className?: string;
+  onAddBoard?: () => void;
 }
 
 export interface ChessViewerHandle {
   handleFileUpload: (file: File) => Promise<void>;
   handlePaste: () => Promise<void>;
   handlePasteFEN: () => Promise<void>;
+  handleSavePGN: () => void;
+  handleCopyPGN: () => Promise<void>;
 }
 
 export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((props, ref) => {
@@ -42,15 +99,14 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
   const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>('white');
   const [activeTab, setActiveTab] = useState<'notation' | 'openingBook'>('notation');
   const [showEngineSettings, setShowEngineSettings] = useState(false);
-  const [engineSettings, setEngineSettings] = useState({
-    threads: 1,
-    hash: 2048,
-    multiPv: 4,
-    depth: 40
-  });
+  const [engineSettings, setEngineSettings] = useState<EngineSettings>(DEFAULT_ENGINE_SETTINGS);
+  // Read when the engine starts, which must not restart it when they change
+  const engineSettingsRef = useRef(engineSettings);
+  const [engineOptions, setEngineOptions] = useState<UciOption[]>([]);
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>({});
+  const [showMovePicker, setShowMovePicker] = useState(false);
   const [games, setGames] = useState<PgnGame[]>([]);
   const [currentGameIndex, setCurrentGameIndex] = useState(0);
-  const [currentMoveIndex, setCurrentMoveIndex] = useState(-1);
   const [chessboard, setChessboard] = useState(new Chess());
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<AnalysisMove[]>([]);
@@ -60,6 +116,22 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
   const [openingPosition, setOpeningPosition] = useState<OpeningPosition | null>(null);
   const [isLoadingOpenings, setIsLoadingOpenings] = useState(false);
   const [forceUpdate, setForceUpdate] = useState(false);
+  // Moves played mid-game replace the rest of the line instead of becoming variations
+  const [overwriteMoves, setOverwriteMoves] = useState(false);
+  const [isAutoplaying, setIsAutoplaying] = useState(false);
+  const [variationChoice, setVariationChoice] = useState<VariationChoice | null>(null);
+  const [autoplaySettings, setAutoplaySettings] = useState<AutoplaySettings>(DEFAULT_AUTOPLAY_SETTINGS);
+  const [importProgress, setImportProgress] = useState<{ fileName: string; progress: PgnImportProgress } | null>(null);
+  const importControllerRef = useRef<AbortController | null>(null);
+  const hoveredSquareRef = useRef<Square | null>(null);
+  const shapeStartRef = useRef<Square | null>(null);
+  const commentRef = useRef<HTMLTextAreaElement>(null);
+  // Commands the navigation service leaves to the view, kept current for its observer
+  const viewCommandsRef = useRef<Partial<Record<NavigationCommand, () => void>>>({});
+  const paletteCommandsRef = useRef<(query: string) => Command[]>(() => []);
+  const [pendingImportFile, setPendingImportFile] = useState<File | null>(null);
+  const [importDiagnostics, setImportDiagnostics] = useState<PgnDiagnostic[]>([]);
+  const [importFixedGames, setImportFixedGames] = useState<PgnGame[]>([]);
 
   const currentGame = games[currentGameIndex];
   const whitePlayer = currentGame?.headers['White'] || 'White';
@@ -94,23 +166,29 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
           setAnalysis([]);
           setAnalysisInfo({ depth: 0, nodes: 0, nps: 0 });
         }
+      },
+      onEngineStarted: (version: string, options: UciOption[]) => {
+        setEngineVersion(version);
+        setEngineOptions(options);
+      },
+      onAnalysisOptionsChange: (options: AnalysisOptions) => {
+        setAnalysisOptions(options);
       }
     };
 
     if (boardState) {
-      boardState.engineService.initialize(engineSettings);
+      boardState.engineService.initialize(engineSettingsRef.current);
       boardState.engineService.addObserver(observer);
       return () => {
         boardState.engineService.removeObserver(observer);
       };
     }
-  }, [boardState, engineSettings]);
+  }, [boardState]);
 
   useEffect(() => {
     const observer: PositionObserver = {
-      onPositionChange: (position: Chess, moveIndex: number) => {
+      onPositionChange: (position: Chess) => {
         setChessboard(new Chess(position.fen()));
-        setCurrentMoveIndex(moveIndex);
         if (boardState?.engineService.isEngineAnalyzing()) {
           boardState.engineService.startAnalysis(position);
         }
@@ -133,12 +211,36 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     return () => boardState?.moveTree.removeObserver(observer);
   }, [boardState]);
 
-  const goToMove = useCallback((moveIndex: number) => {
-    if (boardState) {
-      // Update both services
-      boardState.moveTree.goToMove(moveIndex);
-      boardState.gameManager.goToMove(moveIndex);
+  useEffect(() => {
+    const observer: EditHistoryObserver = {
+      onHistoryChange: () => {
+        setForceUpdate(prev => !prev);
+      }
+    };
+    boardState?.editHistory.addObserver(observer);
+    return () => boardState?.editHistory.removeObserver(observer);
+  }, [boardState]);
+
+  // Right-drag draws an arrow and right-click marks a square on the current
+  // move. Shift, Alt or both switch from green to red, blue or yellow.
+  const handleBoardMouseDown = useCallback((e: React.MouseEvent) => {
+    if (e.button === 2) {
+      shapeStartRef.current = hoveredSquareRef.current;
     }
+  }, []);
+
+  const handleBoardMouseUp = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 2) return;
+    const from = shapeStartRef.current;
+    const to = hoveredSquareRef.current;
+    shapeStartRef.current = null;
+
+    const node = boardState?.moveTree.getCurrentNode();
+    if (!boardState || !node?.parent || !from || !to) return;
+
+    const color = shapeColor(e);
+    const shape: BoardShape = from === to ? { color, from } : { color, from, to };
+    boardState.gameManager.annotateMove(node.id, { shapes: toggleShape(node.shapes ?? [], shape) });
   }, [boardState]);
 
   const onPieceDrop = useCallback((sourceSquare: Square, targetSquare: Square) => {
@@ -146,16 +248,41 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
       return false;
     }
 
-    return boardState.gameManager.makeMove(sourceSquare, targetSquare);
-  }, [boardState, boardManager]);
+    return boardState.gameManager.makeMove(sourceSquare, targetSquare, undefined, { overwrite: overwriteMoves });
+  }, [boardState, boardManager, overwriteMoves]);
 
+  // Asks for the encoding and parse mode before importing
   const handleFileUpload = useCallback(async (file: File) => {
     if (!boardState || boardManager.getActiveBoard()?.id !== boardState.id) {
       return;
     }
+    setPendingImportFile(file);
+  }, [boardState, boardManager]);
+
+  const importFile = useCallback(async (file: File, options: Pick<PgnImportOptions, 'encoding' | 'mode'>) => {
+    if (!boardState) {
+      return;
+    }
+
+    setPendingImportFile(null);
+    importControllerRef.current?.abort();
+    const controller = new AbortController();
+    importControllerRef.current = controller;
+    setImportProgress({
+      fileName: file.name,
+      progress: { bytesRead: 0, totalBytes: file.size, gamesParsed: 0, errors: 0 }
+    });
 
     try {
-      const result = await boardState.gameManager.loadPGNFromFile(file);
+      const result = await boardState.gameManager.loadPGNFromFile(file, {
+        ...options,
+        signal: controller.signal,
+        onProgress: (progress) => setImportProgress({ fileName: file.name, progress })
+      });
+      if (!result.cancelled) {
+        setImportDiagnostics(result.diagnostics);
+        setImportFixedGames(result.games.filter(game => game.fixes));
+      }
       if (result.success && result.games.length > 0) {
         setGames(result.games);
         boardState.gameListService.setGames(result.games);
@@ -163,12 +290,20 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
         // Load the first game by default
         const firstGame = result.games[0];
         boardState.gameManager.loadGame(firstGame);
-        boardState.moveTree.loadGame(firstGame);
       }
     } catch (error) {
       console.error('Failed to load file:', error);
+    } finally {
+      if (importControllerRef.current === controller) {
+        importControllerRef.current = null;
+        setImportProgress(null);
+      }
     }
-  }, [boardState, boardManager]);
+  }, [boardState]);
+
+  const cancelImport = useCallback(() => {
+    importControllerRef.current?.abort();
+  }, []);
 
   const handlePaste = useCallback(async () => {
     if (!boardState || boardManager.getActiveBoard()?.id !== boardState.id) {
@@ -178,6 +313,8 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     try {
       const text = await navigator.clipboard.readText();
       const result = boardState.gameManager.loadPGN(text);
+      setImportDiagnostics(result.diagnostics);
+      setImportFixedGames(result.games.filter(game => game.fixes));
       
       if (result.success && result.games.length > 0) {
         setGames(result.games);
@@ -186,7 +323,6 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
         // Load the first game by default
         const firstGame = result.games[0];
         boardState.gameManager.loadGame(firstGame);
-        boardState.moveTree.loadGame(firstGame);
       }
     } catch (error) {
       console.error('Failed to paste PGN:', error);
@@ -209,12 +345,60 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     }
   }, [boardState, boardManager]);
 
+  const handleSavePGN = useCallback(() => {
+    if (!boardState || boardManager.getActiveBoard()?.id !== boardState.id) {
+      return;
+    }
+
+    try {
+      const pgn = boardState.gameManager.exportPGN();
+      const headers = boardState.gameManager.getHeaders();
+      const fileName = `${headers.White || 'White'}-${headers.Black || 'Black'}.pgn`.replace(/[^\w.-]+/g, '_');
+
+      const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to save PGN:', error);
+    }
+  }, [boardState, boardManager]);
+
+  const handleCopyPGN = useCallback(async () => {
+    if (!boardState || boardManager.getActiveBoard()?.id !== boardState.id) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(boardState.gameManager.exportPGN());
+    } catch (error) {
+      console.error('Failed to copy PGN:', error);
+    }
+  }, [boardState, boardManager]);
+
   const toggleAnalysis = useCallback(() => {
     boardState?.engineService.toggleAnalysis(boardState.gameManager.getCurrentPosition());
   }, [boardState]);
 
+  const toggleThreatMode = useCallback(() => {
+    boardState?.engineService.setThreatMode(!analysisOptions.threat);
+  }, [boardState, analysisOptions.threat]);
+
+  // Adds the move to those searched, or takes it out
+  const toggleSearchMove = useCallback((move: string) => {
+    if (!boardState) return;
+    const searchMoves = analysisOptions.searchMoves ?? [];
+    boardState.engineService.setSearchMoves(
+      boardState.gameManager.getCurrentPosition(),
+      searchMoves.includes(move) ? searchMoves.filter(other => other !== move) : [...searchMoves, move]
+    );
+  }, [boardState, analysisOptions.searchMoves]);
+
   const applyEngineSettings = useCallback((newSettings: EngineSettings) => {
     boardState?.engineService.updateSettings(newSettings);
+    engineSettingsRef.current = newSettings;
     setEngineSettings(newSettings);
   }, [boardState]);
 
@@ -240,8 +424,7 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
 
   const loadGame = (game: PgnGame) => {
     try {
-      const initialPosition = new Chess();
-      setCurrentMoveIndex(-1);
+      const initialPosition = new Chess(game.startFen);
       setChessboard(initialPosition);
       boardState?.gameManager.loadGame(game);
     } catch (error) {
@@ -258,42 +441,40 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     }, []);
   };
 
-  // Initialize navigation service with observer
+  // Initialize navigation service with observer; it moves through the
+  // board's move tree itself, so only view commands are handled here
   useEffect(() => {
     const observer: NavigationObserver = {
       onNavigationCommand: (command: NavigationCommand) => {
         switch (command) {
-          case 'first':
-            goToMove(-1);
-            break;
-          case 'prev':
-            goToMove(currentMoveIndex - 1);
-            break;
-          case 'next':
-            goToMove(currentMoveIndex + 1);
-            break;
-          case 'last':
-            if (boardState) {
-              goToMove(boardState.gameManager.getMoveHistory().length - 1);
-            }
-            break;
-          case 'flip':
-            flipBoard();
+          case 'play':
+          case 'pause':
+          case 'togglePlay':
+            setIsAutoplaying(!!boardState?.navigationService.isPlaying());
             break;
+          default:
+            viewCommandsRef.current[command]?.();
         }
-      }
+      },
+      onVariationChoiceChange: setVariationChoice
     };
 
     if (boardState) {
       boardState.navigationService.addObserver(observer);
       return () => boardState.navigationService.removeObserver(observer);
     }
-  }, [boardState, currentMoveIndex, goToMove]);
+  }, [boardState]);
 
   const flipBoard = () => {
     setBoardOrientation(prev => prev === 'white' ? 'black' : 'white');
   };
 
+  const updateAutoplaySettings = (settings: Partial<AutoplaySettings>) => {
+    if (!boardState) return;
+    boardState.navigationService.setAutoplaySettings(settings);
+    setAutoplaySettings(boardState.navigationService.getAutoplaySettings());
+  };
+
   const filteredGames = games;
 
   const formatNumber = (num: number | undefined | null): string => {
@@ -303,6 +484,61 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     return num.toString();
   };
 
+  // Green when the shown score is good for the side it is shown for
+  const getScoreColor = (line: AnalysisMove, good: string, bad: string, even: string): string => {
+    const { score, mate } = getDisplayScore(line, engineSettings.scorePerspective);
+    const value = mate ?? score;
+    return value > 0 ? good : value < 0 ? bad : even;
+  };
+
+  // The expected score as a percentage when chosen and given, else the
+  // engine's score
+  const describeScore = (line: AnalysisMove, decimals: number): string => {
+    const expectedScore = getExpectedScore(line, engineSettings.scorePerspective);
+    if (engineSettings.showExpectedScore && expectedScore !== undefined && line.mate === undefined) {
+      return `${Math.round(expectedScore * 100)}%`;
+    }
+    return formatScore(line, engineSettings.scorePerspective, decimals);
+  };
+
+  // White's wins, draws and Black's wins, left to right
+  const renderWdlBar = (line: AnalysisMove, width: string) => {
+    if (!line.wdl) return null;
+    const [win, draw, loss] = line.wdl.map(value => value / 10);
+    return (
+      <div
+        className={`flex h-1.5 ${width} rounded-sm overflow-hidden bg-gray-700`}
+        title={`White ${win.toFixed(1)}% · Draw ${draw.toFixed(1)}% · Black ${loss.toFixed(1)}%`}
+      >
+        <div className="bg-gray-100" style={{ width: `${win}%` }} />
+        <div className="bg-gray-500" style={{ width: `${draw}%` }} />
+        <div className="bg-gray-950" style={{ width: `${loss}%` }} />
+      </div>
+    );
+  };
+
+  // "12." before White's moves, and "12..." when the pv starts with Black's
+  const getPvMoveNumber = (line: AnalysisMove, index: number): string | null => {
+    const ply = index + (line.turn === 'b' ? 1 : 0);
+    const moveNumber = line.moveNumber + Math.floor(ply / 2);
+    if (ply % 2 === 0) return `${moveNumber}.`;
+    return index === 0 ? `${moveNumber}...` : null;
+  };
+
+  // What ends the search, e.g. "depth 40" or "10s"
+  const describeSearchLimit = (): string => {
+    switch (engineSettings.searchMode) {
+      case 'infinite':
+        return '∞';
+      case 'movetime':
+        return `${engineSettings.movetime / 1000}s`;
+      case 'nodes':
+        return `${formatNumber(engineSettings.nodes)} nodes`;
+      default:
+        return `depth ${engineSettings.depth}`;
+    }
+  };
+
   const renderAnalysis = () => {
     if (!isAnalyzing) return null;
 
@@ -315,15 +551,15 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
               <div className="flex items-center gap-4 text-sm">
                 <span title="CPU Threads" className="flex items-center gap-1">
                   <span>🧠</span>
-                  <span className="font-mono text-blue-300">{engineSettings.threads} cores</span>
+                  <span className="font-mono text-blue-300">{engineSettings.options.Threads ?? 1} cores</span>
                 </span>
                 <span title="Hash Table Size" className="flex items-center gap-1">
                   <span>💾</span>
-                  <span className="font-mono text-blue-300">{engineSettings.hash}MB</span>
+                  <span className="font-mono text-blue-300">{engineSettings.options.Hash ?? 16}MB</span>
                 </span>
-                <span title="Search Depth" className="flex items-center gap-1">
+                <span title="Search Limit" className="flex items-center gap-1">
                   <span>🔍</span>
-                  <span className="font-mono text-blue-300">depth {engineSettings.depth}</span>
+                  <span className="font-mono text-blue-300">{describeSearchLimit()}</span>
                 </span>
                 <span title="Nodes Searched" className="flex items-center gap-1">
                   <span>🌳</span>
@@ -353,40 +589,29 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
                 </tr>
               </thead>
               <tbody className="text-sm">
-                {analysis.map((line, index) => (
-                  <tr key={index} className="hover:bg-gray-800/30 transition-colors">
+                {analysis.map((line) => (
+                  <tr key={line.multipv} className="hover:bg-gray-800/30 transition-colors">
                     <td className="px-4 py-3">
                       <span className="w-6 h-6 flex items-center justify-center bg-gray-800 rounded-full font-medium text-blue-300">
-                        {index + 1}
+                        {line.multipv}
                       </span>
                     </td>
                     <td className="px-4 py-3">
-                      <span className={`font-mono font-bold ${
-                        !line ? 'text-white' :
-                        line.mate !== undefined ? 
-                          (line.mate > 0 ? 'text-green-400' : line.mate < 0 ? 'text-red-400' : 'text-white') :
-                        line.score !== undefined ? 
-                          (line.score > 0 ? 'text-green-400' : line.score < 0 ? 'text-red-400' : 'text-white') :
-                        'text-white'
-                      }`}>
-                        {!line ? '0.00' :
-                         line.mate !== undefined 
-                          ? (line.mate > 0 ? '+' : '') + `M${Math.abs(line.mate)}`
-                          : line.score !== undefined
-                            ? (line.score > 0 ? '+' : '') + line.score.toFixed(2)
-                            : '0.00'}
+                      <span className={`font-mono font-bold ${getScoreColor(line, 'text-green-400', 'text-red-400', 'text-white')}`}>
+                        {describeScore(line, 2)}
                       </span>
+                      {renderWdlBar(line, 'w-16 mt-1')}
                     </td>
                     <td className="px-4 py-3">
-                      {line?.pv && (
+                      {line.pv && (
                         <div className="overflow-x-auto custom-scrollbar">
                           <div className="font-mono text-blue-300 flex whitespace-nowrap gap-2">
                             {line.pv.slice(0, 10).map((move: string, i: number) => {
-                              const moveNumber = Math.floor(i / 2) + 1;
+                              const moveNumber = getPvMoveNumber(line, i);
                               return (
                                 <React.Fragment key={i}>
-                                  {i % 2 === 0 && (
-                                    <span className="text-gray-500 select-none">{moveNumber}.</span>
+                                  {moveNumber && (
+                                    <span className="text-gray-500 select-none">{moveNumber}</span>
                                   )}
                                   <span className={`${i === 0 ? 'font-bold text-white' : ''} hover:bg-blue-900/30 px-1 rounded cursor-default`}>
                                     {move}
@@ -449,7 +674,7 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
       const moveObj = tempChess.move(move.san);
       
       if (moveObj) {
-        const success = boardState?.gameManager.makeMove(moveObj.from, moveObj.to, moveObj.promotion);
+        const success = boardState?.gameManager.makeMove(moveObj.from, moveObj.to, moveObj.promotion, { overwrite: overwriteMoves });
         if (!success) {
           console.error('Failed to make move:', move.san);
         }
@@ -473,9 +698,7 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
       setCurrentGameIndex(newIndex);
 
       boardState.gameManager.loadGame(game);
-      boardState.moveTree.loadGame(game);
-      setCurrentMoveIndex(-1);
-      setChessboard(new Chess());
+      setChessboard(new Chess(game.startFen));
 
       console.log('Game loaded:', {
         index: newIndex,
@@ -487,12 +710,116 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     }
   }, [games, boardState]);
 
+  const chooseFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.pgn';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) handleFileUpload(file);
+    };
+    input.click();
+  };
+
+  const focusComment = () => {
+    setActiveTab('notation');
+    // The field exists once the notation tab has rendered
+    setTimeout(() => commentRef.current?.focus());
+  };
+
+  const selectGameAt = (index: number) => {
+    if (games[index]) handleGameSelect(games[index]);
+  };
+
+  viewCommandsRef.current = {
+    flip: flipBoard,
+    toggleEngine: toggleAnalysis,
+    openFile: chooseFile,
+    pastePgn: handlePaste,
+    pasteFen: handlePasteFEN,
+    newBoard: () => props.onAddBoard?.(),
+    nextGame: () => selectGameAt(currentGameIndex + 1),
+    prevGame: () => selectGameAt(currentGameIndex - 1),
+    comment: focusComment
+  };
+
+  // What this board adds to the command palette; games are only offered
+  // once something is typed, as a long list would bury the other commands
+  paletteCommandsRef.current = (query: string) => {
+    if (!boardState) return [];
+    const otherDatabase = boardState.openingBook.getCurrentDatabase() === 'masters' ? 'lichess' : 'masters';
+    const commands: Command[] = [
+      { id: 'engineSettings', label: 'Engine settings', category: 'Analysis', run: () => setShowEngineSettings(true) },
+      {
+        id: 'toggleThreatMode',
+        label: analysisOptions.threat ? 'Stop showing threats' : 'Show threats',
+        category: 'Analysis',
+        keywords: 'null move engine',
+        run: toggleThreatMode
+      },
+      {
+        id: 'toggleBookTab',
+        label: activeTab === 'openingBook' ? 'Show notation' : 'Show opening book',
+        category: 'View',
+        run: () => setActiveTab(activeTab === 'openingBook' ? 'notation' : 'openingBook')
+      },
+      {
+        id: 'toggleBookDatabase',
+        label: `Use ${otherDatabase === 'masters' ? 'Masters' : 'Lichess'} opening database`,
+        category: 'Analysis',
+        keywords: 'opening book explorer',
+        run: () => handleDatabaseChange(otherDatabase)
+      }
+    ];
+    if (!query.trim()) return commands;
+
+    return [
+      ...commands,
+      ...games.map((game, index) => ({
+        id: `loadGame:${index}`,
+        label: `${game.headers.White || '?'} – ${game.headers.Black || '?'}`,
+        category: 'Game',
+        keywords: [game.headers.Event, game.headers.Date, game.headers.Result].filter(Boolean).join(' '),
+        run: () => handleGameSelect(game)
+      }))
+    ];
+  };
+
+  // Offered only while this board is the one in front
+  useEffect(() => {
+    if (!boardState) return;
+    return CommandRegistry.getInstance().addProvider(query =>
+      boardManager.getActiveBoard()?.id === boardState.id ? paletteCommandsRef.current(query) : []
+    );
+  }, [boardState, boardManager]);
+
+  const skipDiagnostic = useCallback((diagnostic: PgnDiagnostic) => {
+    setImportDiagnostics(prev => prev.filter(d => d !== diagnostic));
+  }, []);
+
+  // Adds the moves read before the error to the game list and shows where the game broke off
+  const handleLoadPartialGame = useCallback((diagnostic: PgnDiagnostic) => {
+    const partialGame = diagnostic.partialGame;
+    if (!boardState || !partialGame) return;
+
+    const updatedGames = [...games, partialGame];
+    setGames(updatedGames);
+    boardState.gameListService.setGames(updatedGames);
+    setCurrentGameIndex(updatedGames.length - 1);
+
+    boardState.gameManager.loadGame(partialGame);
+    boardState.moveTree.goToLineEnd();
+    skipDiagnostic(diagnostic);
+  }, [games, boardState, skipDiagnostic]);
+
   // Expose methods via ref
   useImperativeHandle(ref, () => ({
     handleFileUpload,
     handlePaste,
-    handlePasteFEN
-  }), [handleFileUpload, handlePaste, handlePasteFEN]);
+    handlePasteFEN,
+    handleSavePGN,
+    handleCopyPGN
+  }), [handleFileUpload, handlePaste, handlePasteFEN, handleSavePGN, handleCopyPGN]);
 
   // Add effect to handle PGN updates when loading games or FEN positions
   useEffect(() => {
@@ -509,7 +836,7 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     if (activeTab === 'notation' && boardState) {
       console.log('Rendering MoveTree with:', {
         moves: boardState.moveTree.getMoves(),
-        currentMoveIndex: boardState.moveTree.getCurrentMoveIndex()
+        currentNodeId: boardState.moveTree.getCurrentNode().id
       });
     }
   }, [activeTab, boardState, forceUpdate]);
@@ -518,6 +845,36 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
     return null;
   }
 
+  const currentShapes = boardState.moveTree.getCurrentNode().shapes ?? [];
+  const shortcutService = ShortcutService.getInstance();
+  // Button tooltips name the key currently bound to the command, if any
+  const withShortcut = (title: string, command: NavigationCommand) => {
+    const shortcut = shortcutService.getShortcutLabel(command);
+    return shortcut ? `${title} (${shortcut})` : title;
+  };
+  const timeControl = parseTimeControl(boardState.gameManager.getHeaders().TimeControl);
+  const clocks = getClocks(boardState.moveTree.getCurrentNode(), timeControl);
+  const sideToMove = boardState.gameManager.getCurrentPosition().turn();
+
+  // Each player's remaining time, on their side of the board
+  const renderClock = (color: 'w' | 'b') => {
+    const seconds = color === 'w' ? clocks.white : clocks.black;
+    if (seconds === undefined) return null;
+    return (
+      <div className="flex justify-between items-center px-1 py-1 text-sm" style={{ width: boardWidth }}>
+        <span className="text-gray-300 truncate">{color === 'w' ? whitePlayer : blackPlayer}</span>
+        <span
+          className={`font-mono px-2 rounded ${
+            sideToMove === color ? 'bg-gray-200 text-gray-900' : 'bg-gray-800 text-gray-400'
+          }`}
+          title={`${color === 'w' ? 'White' : 'Black'}'s clock`}
+        >
+          {formatClock(seconds)}
+        </span>
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-[1800px] mx-auto space-y-6">
       {/* Board and Analysis Grid */}
@@ -526,12 +883,22 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
         <div className="space-y-2 flex flex-col items-center justify-center">
           {/* Board Section */}
           <div className="bg-gray-900 rounded-lg shadow-lg shadow-black/20 p-4">
+            {renderClock(boardOrientation === 'white' ? 'b' : 'w')}
             <div className="relative" style={{ width: boardWidth }}>
-              <div className="flex flex-col items-center">
+              <div
+                className="flex flex-col items-center"
+                onMouseDown={handleBoardMouseDown}
+                onMouseUp={handleBoardMouseUp}
+                onContextMenu={(e) => e.preventDefault()}
+              >
                 <Chessboard 
                   position={boardState.gameManager.getCurrentPosition().fen()}
                   boardWidth={boardWidth}
-                  areArrowsAllowed={true}
+                  areArrowsAllowed={false}
+                  customArrows={shapeArrows(currentShapes)}
+                  customSquareStyles={shapeSquareStyles(currentShapes)}
+                  onMouseOverSquare={(square) => { hoveredSquareRef.current = square; }}
+                  onMouseOutSquare={() => { hoveredSquareRef.current = null; }}
                   showBoardNotation={true}
                   boardOrientation={boardOrientation}
                   onPieceDrop={onPieceDrop}
@@ -546,46 +913,121 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
                 }`}
                 title={`${boardState.gameManager.getCurrentPosition().turn() === 'w' ? 'White' : 'Black'} to move`}
               />
+              {/* Moves to choose from at a branch point */}
+              {variationChoice && variationChoice.node === boardState.moveTree.getCurrentNode() && (
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-10 bg-gray-900/95 border border-gray-700 rounded shadow-lg py-1 min-w-32">
+                  {variationChoice.node.children.map((move, index) => (
+                    <button
+                      key={move.id}
+                      onClick={() => boardState.navigationService.playVariationChoice(index)}
+                      className={`w-full px-3 py-1 text-left text-sm font-mono ${
+                        index === variationChoice.selectedIndex ? 'bg-blue-600 text-white' : 'text-gray-200 hover:bg-gray-800'
+                      }`}
+                    >
+                      {Math.ceil(move.ply / 2)}{move.ply % 2 === 1 ? '.' : '...'}{move.san}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
+            {renderClock(boardOrientation === 'white' ? 'w' : 'b')}
           </div>
 
           {/* Navigation Controls */}
           <div style={{ width: boardWidth }} className="flex justify-center gap-2 bg-gray-900/50 rounded-lg shadow-lg shadow-black/20 p-1.5">
             <button
-              onClick={() => goToMove(-1)}
+              onClick={() => boardState.navigationService.execute('first')}
               className="p-2 text-lg bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors w-9 h-9 flex items-center justify-center"
-              title="First move"
+              title={withShortcut('First move', 'first')}
             >
               ⏮
             </button>
             <button
-              onClick={() => goToMove(currentMoveIndex - 1)}
+              onClick={() => boardState.navigationService.execute('prev')}
               className="p-2 text-lg bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors w-9 h-9 flex items-center justify-center"
-              title="Previous move"
+              title={withShortcut('Previous move', 'prev')}
             >
               ◀
             </button>
             <button
               onClick={flipBoard}
               className="p-2 text-xl bg-amber-500 text-white rounded-full hover:bg-amber-600 transition-colors w-9 h-9 flex items-center justify-center"
-              title="Flip board"
+              title={withShortcut('Flip board', 'flip')}
             >
               ⟲
             </button>
             <button
-              onClick={() => goToMove(currentMoveIndex + 1)}
+              onClick={() => boardState.navigationService.execute('next')}
               className="p-2 text-lg bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors w-9 h-9 flex items-center justify-center"
-              title="Next move"
+              title={withShortcut('Next move', 'next')}
             >
               ▶
             </button>
             <button
-              onClick={() => goToMove(boardState.gameManager.getMoveHistory().length - 1)}
+              onClick={() => boardState.navigationService.execute('last')}
               className="p-2 text-lg bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors w-9 h-9 flex items-center justify-center"
-              title="Last move"
+              title={withShortcut('Last move', 'last')}
             >
               ⏭
             </button>
+            <button
+              onClick={() => boardState.navigationService.execute('togglePlay')}
+              className="p-2 text-lg bg-emerald-600 text-white rounded-full hover:bg-emerald-700 transition-colors w-9 h-9 flex items-center justify-center"
+              title={withShortcut(isAutoplaying ? 'Pause' : 'Play through the game', 'togglePlay')}
+            >
+              {isAutoplaying ? '⏸' : '⏵'}
+            </button>
+            <select
+              value={autoplaySettings.pace === 'clock' ? 'clock' : String(autoplaySettings.interval)}
+              onChange={(e) => updateAutoplaySettings(e.target.value === 'clock'
+                ? { pace: 'clock' }
+                : { pace: 'interval', interval: Number(e.target.value) })}
+              className="bg-gray-800 border border-gray-700 rounded-full px-2 text-sm text-gray-300"
+              title="Autoplay speed"
+            >
+              {AUTOPLAY_INTERVALS.map(interval => (
+                <option key={interval} value={interval}>{interval / 1000}s</option>
+              ))}
+              <option value="clock">Clock ×{autoplaySettings.clockSpeed}</option>
+            </select>
+            <button
+              onClick={() => updateAutoplaySettings({ followVariations: !autoplaySettings.followVariations })}
+              className={`p-2 text-lg rounded-full transition-colors w-9 h-9 flex items-center justify-center ${
+                autoplaySettings.followVariations ? 'bg-emerald-600 text-white hover:bg-emerald-700' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+              title={autoplaySettings.followVariations
+                ? 'Autoplay plays variations too'
+                : 'Autoplay stays on the current line'}
+            >
+              ⑂
+            </button>
+            <button
+              onClick={() => boardState.navigationService.execute('undo')}
+              disabled={!boardState.editHistory.canUndo()}
+              className="p-2 text-lg bg-gray-700 text-gray-300 rounded-full hover:bg-gray-600 transition-colors w-9 h-9 flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+              title={boardState.editHistory.canUndo() ? withShortcut(`Undo: ${boardState.editHistory.getUndoDescription()}`, 'undo') : 'Nothing to undo'}
+            >
+              ↶
+            </button>
+            <button
+              onClick={() => boardState.navigationService.execute('redo')}
+              disabled={!boardState.editHistory.canRedo()}
+              className="p-2 text-lg bg-gray-700 text-gray-300 rounded-full hover:bg-gray-600 transition-colors w-9 h-9 flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+              title={boardState.editHistory.canRedo() ? withShortcut(`Redo: ${boardState.editHistory.getRedoDescription()}`, 'redo') : 'Nothing to redo'}
+            >
+              ↷
+            </button>
+            <button
+              onClick={() => setOverwriteMoves(!overwriteMoves)}
+              className={`p-2 text-lg rounded-full transition-colors w-9 h-9 flex items-center justify-center ${
+                overwriteMoves ? 'bg-[#f7768e] text-white hover:bg-[#f7768e]/80' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+              title={overwriteMoves
+                ? 'New moves overwrite the rest of the line'
+                : 'New moves are added as variations'}
+            >
+              ✎
+            </button>
           </div>
         </div>
 
@@ -603,7 +1045,7 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
                   {isAnalyzing ? '◼' : '▶'}
                 </button>
                 <span className="text-sm text-gray-300">
-                  SF {engineVersion || '...'} · {engineSettings.hash}MB NNUE
+                  SF {engineVersion || '...'} · {engineSettings.options.Hash ?? 16}MB NNUE
                 </span>
                 <button
                   onClick={() => setShowEngineSettings(true)}
@@ -614,48 +1056,84 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
                 </button>
               </div>
               <div className="flex items-center gap-2 text-sm text-gray-400">
-                <span>Depth {analysisInfo.depth}/{engineSettings.depth}</span>
-                <span>∞</span>
+                <button
+                  onClick={toggleThreatMode}
+                  className={analysisOptions.threat ? 'text-[#f7768e]' : 'hover:text-white'}
+                  title="Show what the other side threatens"
+                >
+                  Threat
+                </button>
+                <button
+                  onClick={() => setShowMovePicker(show => !show)}
+                  className={analysisOptions.searchMoves ? 'text-blue-300' : 'hover:text-white'}
+                  title="Search only the moves picked"
+                >
+                  Moves{analysisOptions.searchMoves ? ` (${analysisOptions.searchMoves.length})` : ''}
+                </button>
+                <span>
+                  Depth {analysisInfo.depth}
+                  {engineSettings.searchMode === 'depth' ? `/${engineSettings.depth}` : ` · ${describeSearchLimit()}`}
+                </span>
               </div>
             </div>
 
+            {/* Move Picker */}
+            {showMovePicker && (
+              <div className="flex flex-wrap gap-1 px-3 py-1.5 border-b border-gray-700/50 text-xs font-mono">
+                <button
+                  onClick={() => boardState.engineService.setSearchMoves(boardState.gameManager.getCurrentPosition(), [])}
+                  className={`px-1.5 py-0.5 rounded ${
+                    analysisOptions.searchMoves ? 'bg-gray-800 text-gray-400 hover:text-white' : 'bg-blue-600 text-white'
+                  }`}
+                >
+                  All
+                </button>
+                {chessboard.moves({ verbose: true }).map(move => (
+                  <button
+                    key={move.lan}
+                    onClick={() => toggleSearchMove(move.lan)}
+                    className={`px-1.5 py-0.5 rounded ${
+                      analysisOptions.searchMoves?.includes(move.lan)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-800 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {move.san}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Analysis Lines */}
             {isAnalyzing && (
               <div className="text-sm">
                 {analysis.length === 0 ? (
                   <div className="px-3 py-1.5 text-gray-400">
-                    Analyzing position...
+                    {analysisOptions.threat && chessboard.inCheck()
+                      ? 'No threats to show while in check'
+                      : 'Analyzing position...'}
                   </div>
                 ) : (
-                  analysis.map((line, index) => (
-                    <div key={index} className="px-3 py-1.5 hover:bg-white/5 flex items-baseline gap-3">
-                      <span className={`font-mono font-medium w-12 ${
-                        !line ? 'text-gray-300' :
-                        line.mate !== undefined ? 
-                          (line.mate > 0 ? 'text-[#9ece6a]' : line.mate < 0 ? 'text-[#f7768e]' : 'text-gray-300') :
-                        line.score !== undefined ? 
-                          (line.score > 0 ? 'text-[#9ece6a]' : line.score < 0 ? 'text-[#f7768e]' : 'text-gray-300') :
-                        'text-gray-300'
-                      }`}>
-                        {!line ? '0.0' :
-                         line.mate !== undefined 
-                          ? (line.mate > 0 ? '+' : '') + `M${Math.abs(line.mate)}`
-                          : line.score !== undefined
-                            ? (line.score > 0 ? '+' : '') + line.score.toFixed(1)
-                            : '0.0'}
-                      </span>
+                  analysis.map((line) => (
+                    <div key={line.multipv} className="px-3 py-1.5 hover:bg-white/5 flex items-baseline gap-3">
+                      <div className="w-12 shrink-0">
+                        <span className={`font-mono font-medium ${getScoreColor(line, 'text-[#9ece6a]', 'text-[#f7768e]', 'text-gray-300')}`}>
+                          {describeScore(line, 1)}
+                        </span>
+                        {renderWdlBar(line, 'w-full')}
+                      </div>
                       <div className="font-mono text-gray-300 flex flex-wrap gap-1">
-                        {line?.pv?.slice(0, 20).map((move: string, i: number) => (
+                        {line.pv?.slice(0, 20).map((move: string, i: number) => (
                           <React.Fragment key={i}>
-                            {i % 2 === 0 && (
-                              <span className="text-gray-500 select-none">{Math.floor(i / 2) + 1}.</span>
+                            {getPvMoveNumber(line, i) && (
+                              <span className="text-gray-500 select-none">{getPvMoveNumber(line, i)}</span>
                             )}
                             <span className={`${i === 0 ? 'text-white' : ''}`}>
                               {move}
                             </span>
                           </React.Fragment>
                         ))}
-                        {(line?.pv?.length || 0) > 20 && <span className="text-gray-500">...</span>}
+                        {(line.pv?.length || 0) > 20 && <span className="text-gray-500">...</span>}
                       </div>
                     </div>
                   ))
@@ -695,12 +1173,25 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
               {activeTab === 'notation' ? (
                 <div>
                   <MoveTree
-                    moves={boardState.moveTree.getMoves()}
-                    currentMoveIndex={boardState.moveTree.getCurrentMoveIndex()}
-                    onMoveClick={(index) => {
-                      console.log('Move clicked:', index);
-                      goToMove(index);
+                    root={boardState.moveTree.getRoot()}
+                    gameComment={boardState.moveTree.getGameComment()}
+                    currentNodeId={boardState.moveTree.getCurrentNode().id}
+                    currentLine={boardState.moveTree.getLine()}
+                    onNodeClick={(nodeId) => {
+                      console.log('Move clicked:', nodeId);
+                      boardState.moveTree.goToNode(nodeId);
                     }}
+                    canEdit={(nodeId, edit) => boardState.moveTree.canApplyEdit(nodeId, edit)}
+                    onEdit={(nodeId, edit) => boardState.gameManager.applyEdit(nodeId, edit)}
+                    timeControl={timeControl}
+                  />
+                  <AnnotationEditor
+                    key={boardState.moveTree.getCurrentNode().id}
+                    node={boardState.moveTree.getCurrentNode()}
+                    gameComment={boardState.moveTree.getGameComment()}
+                    onAnnotate={(nodeId, annotations) => boardState.gameManager.annotateMove(nodeId, annotations)}
+                    onGameCommentChange={(comment) => boardState.gameManager.setGameComment(comment)}
+                    commentRef={commentRef}
                   />
                 </div>
               ) : (
@@ -724,99 +1215,46 @@ export const ChessViewer = forwardRef<ChessViewerHandle, ChessViewerProps>((prop
 
           {/* Engine Settings Modal */}
           {showEngineSettings && (
-            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-              <div className="bg-gray-900 rounded-lg shadow-lg p-4 w-96">
-                <div className="flex justify-between items-center mb-4">
-                  <h3 className="text-lg font-bold text-white">Engine Settings</h3>
-                  <button
-                    onClick={() => setShowEngineSettings(false)}
-                    className="text-gray-400 hover:text-white"
-                  >
-                    ✕
-                  </button>
-                </div>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm text-gray-300 mb-1">Threads</label>
-                    <input
-                      type="number"
-                      min="1"
-                      max={navigator.hardwareConcurrency || 8}
-                      value={engineSettings.threads}
-                      onChange={(e) => setEngineSettings((prev: EngineSettings) => ({
-                        ...prev,
-                        threads: Math.min(Math.max(1, parseInt(e.target.value) || 1), navigator.hardwareConcurrency || 8)
-                      }))}
-                      className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm text-gray-300 mb-1">Hash Size (MB)</label>
-                    <input
-                      type="number"
-                      min="16"
-                      max="4096"
-                      step="16"
-                      value={engineSettings.hash}
-                      onChange={(e) => setEngineSettings((prev: EngineSettings) => ({
-                        ...prev,
-                        hash: Math.min(Math.max(16, parseInt(e.target.value) || 16), 4096)
-                      }))}
-                      className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm text-gray-300 mb-1">MultiPV</label>
-                    <input
-                      type="number"
-                      min="1"
-                      max="8"
-                      value={engineSettings.multiPv}
-                      onChange={(e) => setEngineSettings((prev: EngineSettings) => ({
-                        ...prev,
-                        multiPv: Math.min(Math.max(1, parseInt(e.target.value) || 1), 8)
-                      }))}
-                      className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm text-gray-300 mb-1">Max Depth</label>
-                    <input
-                      type="number"
-                      min="10"
-                      max="99"
-                      value={engineSettings.depth}
-                      onChange={(e) => setEngineSettings((prev: EngineSettings) => ({
-                        ...prev,
-                        depth: Math.min(Math.max(10, parseInt(e.target.value) || 10), 99)
-                      }))}
-                      className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white"
-                    />
-                  </div>
-                  <div className="flex justify-end gap-2 mt-6">
-                    <button
-                      onClick={() => setShowEngineSettings(false)}
-                      className="px-4 py-2 text-gray-300 hover:text-white"
-                    >
-                      Cancel
-                    </button>
-                    <button
-                      onClick={() => {
-                        applyEngineSettings(engineSettings);
-                        setShowEngineSettings(false);
-                      }}
-                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-                    >
-                      Apply
-                    </button>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <EngineSettingsPanel
+              settings={engineSettings}
+              options={engineOptions}
+              engineName={engineVersion ? `Stockfish ${engineVersion}` : undefined}
+              onApply={applyEngineSettings}
+              onPressButton={(name) => boardState?.engineService.pressButton(name)}
+              onClose={() => setShowEngineSettings(false)}
+            />
           )}
         </div>
       </div>
 
+      {pendingImportFile && (
+        <ImportDialog
+          file={pendingImportFile}
+          onImport={(options) => importFile(pendingImportFile, options)}
+          onCancel={() => setPendingImportFile(null)}
+        />
+      )}
+
+      {importProgress && (
+        <ImportProgress
+          fileName={importProgress.fileName}
+          progress={importProgress.progress}
+          onCancel={cancelImport}
+        />
+      )}
+
+      {/* Import Report */}
+      <ImportReport
+        diagnostics={importDiagnostics}
+        fixedGames={importFixedGames}
+        onSkip={skipDiagnostic}
+        onLoadPartial={handleLoadPartialGame}
+        onClose={() => {
+          setImportDiagnostics([]);
+          setImportFixedGames([]);
+        }}
+      />
+
       {/* Games List */}
       {games.length > 0 && (
         <GameList
@@ -0,0 +1,98 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CommandRegistry, type Command } from '../services/CommandRegistry';
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
+  const registry = CommandRegistry.getInstance();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Command[]>(() => registry.search(''));
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selectedRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    setResults(registry.search(query));
+    setSelectedIndex(0);
+  }, [query, registry]);
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const runCommand = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  // Keys typed into the palette must not reach the boards behind it
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedIndex(index => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (results[selectedIndex]) runCommand(results[selectedIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-start justify-center pt-24 z-50"
+      onMouseDown={onClose}
+    >
+      <div
+        className="bg-[#252538] border border-[#383852] rounded-lg shadow-lg w-[36rem] max-h-[70vh] flex flex-col"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command, a move like 23...Nf6 or a player"
+          className="w-full px-4 py-3 bg-transparent text-white placeholder-gray-500 border-b border-[#383852] outline-none"
+        />
+        <div className="overflow-y-auto py-1">
+          {results.length === 0 ? (
+            <div className="px-4 py-2 text-sm text-gray-500">No matching commands</div>
+          ) : (
+            results.map((command, index) => (
+              <button
+                key={command.id}
+                ref={index === selectedIndex ? selectedRef : undefined}
+                onClick={() => runCommand(command)}
+                onMouseMove={() => setSelectedIndex(index)}
+                className={`w-full px-4 py-2 text-left text-sm flex items-center gap-2 ${
+                  index === selectedIndex ? 'bg-[#383852] text-white' : 'text-gray-300'
+                }`}
+              >
+                {command.icon && <span>{command.icon}</span>}
+                <span className="text-gray-500">{command.category}:</span>
+                <span className="flex-1 truncate">{command.label}</span>
+                {command.shortcut && (
+                  <span className="text-xs font-mono text-gray-500">{command.shortcut}</span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_ENGINE_SETTINGS,
+  type EngineSettings,
+  type ScorePerspective,
+  type SearchMode
+} from '../services/ChessEngineService';
+import { type UciOption, type UciOptionValue } from '../services/UciProtocol';
+
+interface EngineSettingsPanelProps {
+  settings: EngineSettings;
+  // The options the engine announced, empty while it is starting
+  options: UciOption[];
+  engineName?: string;
+  onApply: (settings: EngineSettings) => void;
+  onPressButton: (name: string) => void;
+  onClose: () => void;
+}
+
+// Set by the viewer itself rather than by the user
+const HIDDEN_OPTIONS = ['UCI_AnalyseMode', 'UCI_ShowWDL'];
+
+const INPUT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white';
+
+// Builds its fields from the options the engine announced, so whatever
+// engine is running, each of its options can be set
+const EngineSettingsPanel: React.FC<EngineSettingsPanelProps> = ({
+  settings,
+  options,
+  engineName,
+  onApply,
+  onPressButton,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<EngineSettings>(settings);
+
+  const getValue = (option: UciOption): UciOptionValue | undefined =>
+    draft.options[option.name] ?? option.default;
+
+  const setValue = (option: UciOption, value: UciOptionValue) => {
+    setDraft(prev => ({ ...prev, options: { ...prev.options, [option.name]: value } }));
+  };
+
+  const renderInput = (option: UciOption) => {
+    const value = getValue(option);
+    switch (option.type) {
+      case 'spin':
+        return (
+          <input
+            type="number"
+            min={option.min}
+            max={option.max}
+            value={Number(value ?? 0)}
+            onChange={(e) => setValue(option, parseInt(e.target.value) || 0)}
+            className={INPUT_CLASS}
+          />
+        );
+      case 'check':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValue(option, e.target.checked)}
+            className="h-4 w-4"
+          />
+        );
+      case 'combo':
+        return (
+          <select
+            value={String(value ?? '')}
+            onChange={(e) => setValue(option, e.target.value)}
+            className={INPUT_CLASS}
+          >
+            {option.vars?.map(choice => (
+              <option key={choice} value={choice}>{choice}</option>
+            ))}
+          </select>
+        );
+      case 'string':
+        return (
+          <input
+            type="text"
+            value={String(value ?? '')}
+            onChange={(e) => setValue(option, e.target.value)}
+            className={INPUT_CLASS}
+          />
+        );
+      case 'button':
+        return (
+          <button
+            onClick={() => onPressButton(option.name)}
+            className="px-3 py-1 bg-gray-800 text-gray-200 rounded hover:bg-gray-700"
+          >
+            {option.name}
+          </button>
+        );
+    }
+  };
+
+  const visibleOptions = options.filter(option => !HIDDEN_OPTIONS.includes(option.name));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-lg shadow-lg p-4 w-[28rem] max-h-[85vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white">
+            Engine Settings{engineName ? ` · ${engineName}` : ''}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+        <div className="space-y-4 overflow-y-auto pr-1">
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Search</label>
+            <select
+              value={draft.searchMode}
+              onChange={(e) => setDraft(prev => ({ ...prev, searchMode: e.target.value as SearchMode }))}
+              className={INPUT_CLASS}
+            >
+              <option value="depth">To a depth</option>
+              <option value="infinite">Until stopped</option>
+              <option value="movetime">For a time</option>
+              <option value="nodes">For a number of nodes</option>
+            </select>
+          </div>
+          {draft.searchMode === 'depth' && (
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Max Depth</label>
+              <input
+                type="number"
+                min="10"
+                max="99"
+                value={draft.depth}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  depth: Math.min(Math.max(10, parseInt(e.target.value) || 10), 99)
+                }))}
+                className={INPUT_CLASS}
+              />
+            </div>
+          )}
+          {draft.searchMode === 'movetime' && (
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Seconds per Position</label>
+              <input
+                type="number"
+                min="1"
+                max="3600"
+                value={draft.movetime / 1000}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  movetime: Math.min(Math.max(1, parseInt(e.target.value) || 1), 3600) * 1000
+                }))}
+                className={INPUT_CLASS}
+              />
+            </div>
+          )}
+          {draft.searchMode === 'nodes' && (
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Nodes per Position</label>
+              <input
+                type="number"
+                min="1000"
+                step="100000"
+                value={draft.nodes}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  nodes: Math.max(1000, parseInt(e.target.value) || 1000)
+                }))}
+                className={INPUT_CLASS}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Show Scores For</label>
+            <select
+              value={draft.scorePerspective}
+              onChange={(e) => setDraft(prev => ({ ...prev, scorePerspective: e.target.value as ScorePerspective }))}
+              className={INPUT_CLASS}
+            >
+              <option value="white">White</option>
+              <option value="sideToMove">Side to move</option>
+            </select>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="block text-sm text-gray-300">Expected Score Instead of Centipawns</label>
+            <input
+              type="checkbox"
+              checked={draft.showExpectedScore}
+              onChange={(e) => setDraft(prev => ({ ...prev, showExpectedScore: e.target.checked }))}
+              className="h-4 w-4"
+            />
+          </div>
+          {visibleOptions.length === 0 ? (
+            <div className="text-sm text-gray-500">Waiting for the engine to list its options…</div>
+          ) : (
+            visibleOptions.map(option => (
+              <div
+                key={option.name}
+                className={option.type === 'check' ? 'flex items-center justify-between' : undefined}
+              >
+                {option.type !== 'button' && (
+                  <label className="block text-sm text-gray-300 mb-1">
+                    {option.name}
+                    {option.type === 'spin' && option.min !== undefined && option.max !== undefined && (
+                      <span className="text-gray-500"> ({option.min}–{option.max})</span>
+                    )}
+                  </label>
+                )}
+                {renderInput(option)}
+              </div>
+            ))
+          )}
+        </div>
+        <div className="flex justify-between gap-2 mt-6">
+          <button
+            onClick={() => setDraft(DEFAULT_ENGINE_SETTINGS)}
+            className="px-4 py-2 text-gray-300 hover:text-white"
+          >
+            Restore defaults
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-300 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                onApply(draft);
+                onClose();
+              }}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EngineSettingsPanel;
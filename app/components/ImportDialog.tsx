@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  detectEncoding,
+  getEncodingLabel,
+  ENCODING_SAMPLE_SIZE,
+  PGN_ENCODINGS,
+  type EncodingDetection,
+  type PgnEncoding
+} from '../services/PgnEncoding';
+import { type PgnParseMode } from '../services/PgnParser';
+
+interface ImportDialogProps {
+  file: File;
+  onImport: (options: { encoding: PgnEncoding; mode: PgnParseMode }) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LINES = 12;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ file, onImport, onCancel }) => {
+  const [sample, setSample] = useState<Uint8Array | null>(null);
+  const [detection, setDetection] = useState<EncodingDetection | null>(null);
+  const [selectedEncoding, setSelectedEncoding] = useState<PgnEncoding | 'auto'>('auto');
+  const [strict, setStrict] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    file.slice(0, ENCODING_SAMPLE_SIZE).arrayBuffer()
+      .then(buffer => {
+        if (cancelled) return;
+        const bytes = new Uint8Array(buffer);
+        setSample(bytes);
+        setDetection(detectEncoding(bytes));
+      })
+      .catch(error => console.error('Failed to read file sample:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const encoding = selectedEncoding === 'auto' ? detection?.encoding : selectedEncoding;
+
+  // The first lines decoded as they will be imported, so a wrong encoding shows up as garbled names
+  const preview = useMemo(() => {
+    if (!sample || !encoding) return '';
+    return new TextDecoder(encoding).decode(sample).split(/\r?\n/).slice(0, PREVIEW_LINES).join('\n');
+  }, [sample, encoding]);
+
+  const describeDetection = (result: EncodingDetection) => {
+    const label = getEncodingLabel(result.encoding);
+    switch (result.reason) {
+      case 'bom':
+        return `${label} (byte order mark)`;
+      case 'utf-8':
+        return label;
+      default:
+        return `${label} (not valid UTF-8)`;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-lg shadow-lg p-4 w-[36rem]">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white">Import PGN</h3>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+        <div className="space-y-4">
+          <div className="text-sm text-gray-400 truncate" title={file.name}>{file.name}</div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Character Encoding</label>
+            <select
+              value={selectedEncoding}
+              onChange={(e) => setSelectedEncoding(e.target.value as PgnEncoding | 'auto')}
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white"
+            >
+              <option value="auto">
+                Auto-detect{detection ? `: ${describeDetection(detection)}` : '...'}
+              </option>
+              {PGN_ENCODINGS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Preview</label>
+            <pre className="bg-gray-950 rounded p-2 text-xs text-gray-300 h-48 overflow-auto">{preview}</pre>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={strict}
+              onChange={(e) => setStrict(e.target.checked)}
+            />
+            Strict validation (report non-standard notation instead of correcting it)
+          </label>
+          <div className="flex justify-end gap-2 mt-6">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-300 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => encoding && onImport({ encoding, mode: strict ? 'strict' : 'lenient' })}
+              disabled={!encoding}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
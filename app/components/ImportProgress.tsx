@@ -0,0 +1,60 @@
+import React from 'react';
+import { type PgnImportProgress } from '../services/PgnImportService';
+
+interface ImportProgressProps {
+  fileName: string;
+  progress: PgnImportProgress;
+  onCancel: () => void;
+}
+
+const ImportProgress: React.FC<ImportProgressProps> = ({ fileName, progress, onCancel }) => {
+  const formatBytes = (bytes: number): string => {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+  };
+
+  const percentage = progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-lg shadow-lg p-4 w-96">
+        <h3 className="text-lg font-bold text-white mb-1">Importing PGN</h3>
+        <div className="text-sm text-gray-400 mb-4 truncate" title={fileName}>{fileName}</div>
+
+        <div className="h-2 bg-gray-800 rounded-full overflow-hidden mb-3">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+
+        <div className="space-y-1 text-sm text-gray-300">
+          <div className="flex justify-between">
+            <span>Read</span>
+            <span>{formatBytes(progress.bytesRead)} / {formatBytes(progress.totalBytes)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Games parsed</span>
+            <span>{progress.gamesParsed.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Errors</span>
+            <span className={progress.errors > 0 ? 'text-[#f7768e]' : ''}>{progress.errors.toLocaleString()}</span>
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-300 hover:text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportProgress;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { type PgnDiagnostic, type PgnGame } from '../services/PgnService';
+
+interface ImportReportProps {
+  diagnostics: PgnDiagnostic[];
+  // Games that loaded after lenient fixes
+  fixedGames: PgnGame[];
+  onSkip: (diagnostic: PgnDiagnostic) => void;
+  onLoadPartial: (diagnostic: PgnDiagnostic) => void;
+  onClose: () => void;
+}
+
+// Lines of the game shown around the error
+const SOURCE_CONTEXT_LINES = 3;
+
+const GameSource: React.FC<{ diagnostic: PgnDiagnostic }> = ({ diagnostic }) => {
+  const lines = diagnostic.gameText.split('\n');
+  const errorIndex = diagnostic.line - diagnostic.gameLine;
+  const first = Math.max(0, errorIndex - SOURCE_CONTEXT_LINES);
+  const last = Math.min(lines.length, errorIndex + SOURCE_CONTEXT_LINES + 1);
+
+  return (
+    <pre className="mt-2 bg-gray-950 rounded p-2 text-xs text-gray-300 overflow-x-auto">
+      {lines.slice(first, last).map((line, index) => {
+        const lineNumber = diagnostic.gameLine + first + index;
+        const isErrorLine = lineNumber === diagnostic.line;
+        return (
+          <React.Fragment key={lineNumber}>
+            <div className={isErrorLine ? 'bg-[#f7768e]/20 text-white' : ''}>
+              <span className="text-gray-600 select-none inline-block w-12 text-right pr-2">{lineNumber}</span>
+              {line}
+            </div>
+            {isErrorLine && (
+              <div className="text-[#f7768e] select-none">
+                <span className="inline-block w-12" />
+                {' '.repeat(Math.max(0, diagnostic.column - 1))}^
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </pre>
+  );
+};
+
+const FixList: React.FC<{ games: PgnGame[] }> = ({ games }) => (
+  <div className="max-h-64 overflow-y-auto px-6 py-2 text-sm divide-y divide-gray-800">
+    {games.map((game, index) => (
+      <div key={index} className="py-2">
+        <div className="text-gray-300">{game.headers.White || '?'} – {game.headers.Black || '?'}</div>
+        {game.fixes?.map((fix, fixIndex) => (
+          <div key={fixIndex} className="text-gray-400">
+            Line {fix.line}: <span className="font-mono">{fix.original || '∅'}</span> → <span className="font-mono text-gray-200">{fix.replacement || '∅'}</span>
+            <span className="text-gray-500"> ({fix.message})</span>
+          </div>
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+const ImportReport: React.FC<ImportReportProps> = ({ diagnostics, fixedGames, onSkip, onLoadPartial, onClose }) => {
+  const [openGame, setOpenGame] = useState<number | null>(null);
+  const [showFixes, setShowFixes] = useState(false);
+
+  if (diagnostics.length === 0 && fixedGames.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-lg shadow-lg shadow-black/20 overflow-hidden">
+      <div className="px-6 py-3 border-b border-gray-700 flex justify-between items-center">
+        <div className="flex items-center gap-2 text-gray-300">
+          {diagnostics.length > 0 && (
+            <span>
+              <span className="text-[#f7768e]">⚠</span> {diagnostics.length} {diagnostics.length === 1 ? 'game' : 'games'} could not be imported
+            </span>
+          )}
+          {diagnostics.length > 0 && fixedGames.length > 0 && <span className="text-gray-500">|</span>}
+          {fixedGames.length > 0 && (
+            <button
+              onClick={() => setShowFixes(!showFixes)}
+              className="hover:text-white"
+            >
+              {fixedGames.length} {fixedGames.length === 1 ? 'game' : 'games'} corrected {showFixes ? '▾' : '▸'}
+            </button>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white"
+          title="Close report"
+        >
+          ✕
+        </button>
+      </div>
+
+      {showFixes && <FixList games={fixedGames} />}
+
+      <div className="max-h-96 overflow-y-auto divide-y divide-gray-800">
+        {diagnostics.map(diagnostic => (
+          <div key={diagnostic.gameNumber} className="px-6 py-3 text-sm">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="text-gray-300">
+                  Game {diagnostic.gameNumber} · {diagnostic.headers.White || '?'} – {diagnostic.headers.Black || '?'}
+                </div>
+                <div className="text-gray-400">
+                  Line {diagnostic.line}, column {diagnostic.column}: <span className="text-[#f7768e]">{diagnostic.message}</span>
+                </div>
+                {diagnostic.fen && (
+                  <div className="text-gray-500 font-mono text-xs truncate" title={diagnostic.fen}>
+                    in {diagnostic.fen}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => setOpenGame(openGame === diagnostic.gameNumber ? null : diagnostic.gameNumber)}
+                  className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-600"
+                >
+                  {openGame === diagnostic.gameNumber ? 'Hide' : 'Show'}
+                </button>
+                <button
+                  onClick={() => onLoadPartial(diagnostic)}
+                  disabled={!diagnostic.partialGame}
+                  className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={diagnostic.partialGame
+                    ? `Load the ${diagnostic.partialGame.moves.length} moves before the error`
+                    : 'No moves before the error'}
+                >
+                  Load partial
+                </button>
+                <button
+                  onClick={() => onSkip(diagnostic)}
+                  className="px-3 py-1 text-gray-400 hover:text-white"
+                >
+                  Skip
+                </button>
+              </div>
+            </div>
+            {openGame === diagnostic.gameNumber && <GameSource diagnostic={diagnostic} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReport;
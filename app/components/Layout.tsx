@@ -1,5 +1,9 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
+import ShortcutSettings from './ShortcutSettings';
+import CommandPalette from './CommandPalette';
+import { CommandRegistry, type Command } from '../services/CommandRegistry';
+import { ShortcutService } from '../services/ShortcutService';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -7,12 +11,16 @@ interface LayoutProps {
   onPastePGN?: () => void;
   onPasteFEN?: () => void;
   onAddBoard?: () => void;
+  onSavePGN?: () => void;
+  onCopyPGN?: () => void;
 }
 
-export default function Layout({ children, onFileUpload, onPastePGN, onPasteFEN, onAddBoard }: LayoutProps) {
+export default function Layout({ children, onFileUpload, onPastePGN, onPasteFEN, onAddBoard, onSavePGN, onCopyPGN }: LayoutProps) {
   const [isSidebarExpanded, setIsSidebarExpanded] = useState(false);
   const [showFileMenu, setShowFileMenu] = useState(false);
   const [showEditMenu, setShowEditMenu] = useState(false);
+  const [showShortcutSettings, setShowShortcutSettings] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
   const closeTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
 
   const handleMenuMouseEnter = (menu: 'file' | 'edit') => {
@@ -35,6 +43,71 @@ export default function Layout({ children, onFileUpload, onPastePGN, onPasteFEN,
     }, 300); // 300ms delay before closing
   };
 
+  const openPgnFile = () => {
+    // Create and trigger a file input directly
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.pgn';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file && onFileUpload) {
+        console.log('File selected:', file.name);
+        onFileUpload(file);
+      }
+    };
+    input.click();
+  };
+
+  // The menus and the command palette offer the same commands. Those that
+  // also have keys share the key command's id, so the palette lists them once.
+  const shortcuts = ShortcutService.getInstance();
+  const fileMenu: Command[] = [
+    { id: 'openFile', label: 'Open PGN', category: 'File', icon: '📁', shortcut: shortcuts.getShortcutLabel('openFile'), run: openPgnFile },
+    { id: 'savePgn', label: 'Save PGN', category: 'File', icon: '💾', run: () => onSavePGN?.() },
+    { id: 'newBoard', label: 'Add Board', category: 'File', icon: '➕', shortcut: shortcuts.getShortcutLabel('newBoard'), run: () => onAddBoard?.() }
+  ];
+  const editMenu: Command[] = [
+    { id: 'pastePgn', label: 'Paste PGN', category: 'Edit', icon: '📋', shortcut: shortcuts.getShortcutLabel('pastePgn'), run: () => onPastePGN?.() },
+    { id: 'pasteFen', label: 'Paste FEN', category: 'Edit', icon: '♟', shortcut: shortcuts.getShortcutLabel('pasteFen'), run: () => onPasteFEN?.() },
+    { id: 'copyPgn', label: 'Copy PGN', category: 'Edit', icon: '📄', run: () => onCopyPGN?.() }
+  ];
+  const settingsCommand: Command = {
+    id: 'shortcutSettings',
+    label: 'Keyboard shortcuts',
+    category: 'Settings',
+    icon: '⚙️',
+    run: () => setShowShortcutSettings(true)
+  };
+
+  // Registered again on every render so the commands call the latest handlers
+  useEffect(() => CommandRegistry.getInstance().register([...fileMenu, ...editMenu, settingsCommand]));
+
+  // The palette opens from anywhere, even while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (ShortcutService.getInstance().getCommandForEvent(e) === 'commandPalette') {
+        e.preventDefault();
+        setShowCommandPalette(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const renderMenuItems = (commands: Command[]) => commands.map(command => (
+    <button
+      key={command.id}
+      onClick={() => {
+        command.run();
+        handleMenuMouseLeave();
+      }}
+      className="w-full px-4 py-2 text-left hover:bg-[#383852] flex items-center gap-2"
+    >
+      <span>{command.icon}</span> {command.label}
+      {command.shortcut && <span className="ml-auto pl-4 text-xs text-gray-500">{command.shortcut}</span>}
+    </button>
+  ));
+
   return (
     <div className="min-h-screen bg-[#1E1E2E]">
       {/* Top Menu Bar */}
@@ -68,38 +141,7 @@ export default function Layout({ children, onFileUpload, onPastePGN, onPasteFEN,
               }}
               onMouseLeave={handleMenuMouseLeave}
             >
-              <button 
-                onClick={() => {
-                  console.log('Open PGN button clicked');
-                  // Create and trigger a file input directly
-                  const input = document.createElement('input');
-                  input.type = 'file';
-                  input.accept = '.pgn';
-                  input.onchange = (e) => {
-                    const file = (e.target as HTMLInputElement).files?.[0];
-                    if (file && onFileUpload) {
-                      console.log('File selected:', file.name);
-                      onFileUpload(file);
-                    }
-                  };
-                  input.click();
-                  handleMenuMouseLeave();
-                }}
-                className="w-full px-4 py-2 text-left hover:bg-[#383852] flex items-center gap-2"
-              >
-                <span>📁</span> Open PGN
-              </button>
-              <button 
-                onClick={() => {
-                  if (onAddBoard) {
-                    onAddBoard();
-                    handleMenuMouseLeave();
-                  }
-                }}
-                className="w-full px-4 py-2 text-left hover:bg-[#383852] flex items-center gap-2"
-              >
-                <span>➕</span> Add Board
-              </button>
+              {renderMenuItems(fileMenu)}
             </div>
           )}
         </div>
@@ -126,28 +168,7 @@ export default function Layout({ children, onFileUpload, onPastePGN, onPasteFEN,
               }}
               onMouseLeave={handleMenuMouseLeave}
             >
-              <button 
-                onClick={async () => {
-                  if (onPastePGN) {
-                    onPastePGN();
-                    handleMenuMouseLeave();
-                  }
-                }}
-                className="w-full px-4 py-2 text-left hover:bg-[#383852] flex items-center gap-2"
-              >
-                <span>📋</span> Paste PGN
-              </button>
-              <button 
-                onClick={async () => {
-                  if (onPasteFEN) {
-                    onPasteFEN();
-                    handleMenuMouseLeave();
-                  }
-                }}
-                className="w-full px-4 py-2 text-left hover:bg-[#383852] flex items-center gap-2"
-              >
-                <span>♟</span> Paste FEN
-              </button>
+              {renderMenuItems(editMenu)}
             </div>
           )}
         </div>
@@ -242,8 +263,12 @@ export default function Layout({ children, onFileUpload, onPastePGN, onPasteFEN,
 
           {/* Bottom Section */}
           <div className="p-2 border-t border-[#383852]">
-            <button className="w-full p-2 text-gray-400 hover:text-white hover:bg-[#383852] rounded">
-              <span className="text-xl">⚙️</span>
+            <button
+              onClick={settingsCommand.run}
+              className="w-full p-2 text-gray-400 hover:text-white hover:bg-[#383852] rounded"
+              title={settingsCommand.label}
+            >
+              <span className="text-xl">{settingsCommand.icon}</span>
             </button>
           </div>
         </nav>
@@ -256,6 +281,14 @@ export default function Layout({ children, onFileUpload, onPastePGN, onPasteFEN,
           {children}
         </main>
       </div>
+
+      {showShortcutSettings && (
+        <ShortcutSettings onClose={() => setShowShortcutSettings(false)} />
+      )}
+
+      {showCommandPalette && (
+        <CommandPalette onClose={() => setShowCommandPalette(false)} />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,94 +1,136 @@
-import React from 'react';
-import { Chess } from 'chess.js';
-
-interface Move {
-  san: string;
-  fen: string;
-  variations: Move[][];
-}
+import React, { useState, useEffect, useCallback } from 'react';
+import { nagToSymbol } from '../services/PgnParser';
+import { type MoveNode, type MoveTreeEdit } from '../services/MoveTreeService';
+import { formatTimeSpent, getTimeSpent, type TimeControl } from '../services/GameClock';
+import { ShortcutService } from '../services/ShortcutService';
 
 interface MoveTreeProps {
-  moves: Move[];
-  currentMoveIndex: number;
-  onMoveClick: (moveIndex: number) => void;
+  root: MoveNode;
+  gameComment?: string;
+  currentNodeId: string;
+  // The moves leading to the current one and the rest of its line, highlighted
+  currentLine?: MoveNode[];
+  onNodeClick: (nodeId: string) => void;
+  canEdit?: (nodeId: string, edit: MoveTreeEdit) => boolean;
+  onEdit?: (nodeId: string, edit: MoveTreeEdit) => void;
+  // Used to work out time spent per move from the clocks
+  timeControl?: TimeControl | null;
   className?: string;
 }
 
 interface MoveLineProps {
-  moves: Move[];
-  startIndex: number;
-  currentMoveIndex: number;
-  onMoveClick: (moveIndex: number) => void;
-  isMainLine?: boolean;
+  first: MoveNode;
+  currentNodeId: string;
+  currentLineIds: Set<string>;
+  onNodeClick: (nodeId: string) => void;
+  onNodeContextMenu: (nodeId: string, event: React.MouseEvent) => void;
+  timeControl: TimeControl | null;
 }
 
-const MoveLine: React.FC<MoveLineProps> = ({ moves, startIndex, currentMoveIndex, onMoveClick, isMainLine = true }) => {
-  if (!moves || moves.length === 0) {
-    console.log('MoveLine: No moves to display');
-    return null;
+interface ContextMenuState {
+  nodeId: string;
+  x: number;
+  y: number;
+}
+
+const EDIT_ACTIONS: Array<{ edit: MoveTreeEdit; label: string }> = [
+  { edit: 'promoteVariation', label: 'Promote to main line' },
+  { edit: 'moveVariationUp', label: 'Move variation up' },
+  { edit: 'moveVariationDown', label: 'Move variation down' },
+  { edit: 'deleteVariation', label: 'Delete variation' },
+  { edit: 'deleteRemainingMoves', label: 'Delete remaining moves' },
+  { edit: 'deleteMovesBefore', label: 'Delete previous moves' }
+];
+
+// NAGs 1-9 judge the move itself and are written straight after the SAN
+const isMoveAssessment = (nag: number) => nag >= 1 && nag <= 9;
+
+const Comment: React.FC<{ text: string }> = ({ text }) => (
+  <span className="text-emerald-300/80 italic px-1">{text}</span>
+);
+
+// Variations are shown after the move they are alternatives to
+const getVariations = (node: MoveNode) => {
+  const siblings = node.parent?.children ?? [];
+  return siblings[0] === node ? siblings.slice(1) : [];
+};
+
+const MoveLine: React.FC<MoveLineProps> = ({ first, currentNodeId, currentLineIds, onNodeClick, onNodeContextMenu, timeControl }) => {
+  const line: MoveNode[] = [];
+  for (let node: MoveNode | undefined = first; node; node = node.children[0]) {
+    line.push(node);
   }
 
   console.log('MoveLine rendering:', {
-    movesCount: moves.length,
-    startIndex,
-    currentMoveIndex,
-    isMainLine
+    movesCount: line.length,
+    firstMove: first.san,
+    isMainline: first.isMainline
   });
 
   return (
-    <div className={`flex flex-wrap gap-1 ${!isMainLine ? 'ml-4 mt-1' : ''}`}>
-      {moves.map((move, index) => {
-        const absoluteIndex = startIndex + index;
-        const moveNumber = Math.floor(absoluteIndex / 2) + 1;
-        const isWhiteMove = absoluteIndex % 2 === 0;
-
-        console.log('Rendering move:', {
-          san: move.san,
-          absoluteIndex,
-          moveNumber,
-          isWhiteMove,
-          variationsCount: move.variations?.length || 0
-        });
+    <div className="flex flex-wrap gap-1">
+      {line.map((node, index) => {
+        const moveNumber = Math.ceil(node.ply / 2);
+        const isWhiteMove = node.ply % 2 === 1;
+        const previousNode = index > 0 ? line[index - 1] : null;
+        const variations = getVariations(node);
+        // Black moves need their number repeated after interrupting text
+        const showMoveNumber = isWhiteMove ||
+          index === 0 ||
+          !!node.commentBefore ||
+          !!previousNode?.commentAfter ||
+          (previousNode ? getVariations(previousNode).length > 0 : false);
+        const assessment = (node.nags ?? []).filter(isMoveAssessment).map(nagToSymbol).join('');
+        const evaluation = (node.nags ?? []).filter(nag => !isMoveAssessment(nag)).map(nagToSymbol).join(' ');
+        const timeSpent = getTimeSpent(node, timeControl);
 
         return (
-          <React.Fragment key={absoluteIndex}>
-            {(isWhiteMove || (!isMainLine && index === 0)) && (
+          <React.Fragment key={node.id}>
+            {node.commentBefore && <Comment text={node.commentBefore} />}
+            {showMoveNumber && (
               <span className="text-gray-500 select-none">
                 {moveNumber}{isWhiteMove ? '.' : '...'}
               </span>
             )}
             <button
               onClick={() => {
-                console.log('Move clicked:', absoluteIndex);
-                onMoveClick(absoluteIndex);
+                console.log('Move clicked:', node.id);
+                onNodeClick(node.id);
               }}
-              className={`px-2 py-0.5 rounded text-left ${
-                currentMoveIndex === absoluteIndex
+              onContextMenu={(e) => onNodeContextMenu(node.id, e)}
+              className={`${node.isMainline ? 'px-2' : 'px-1'} py-0.5 rounded text-left ${
+                currentNodeId === node.id
                   ? 'bg-blue-900/50 text-blue-300'
-                  : 'text-white hover:bg-gray-800'
+                  : currentLineIds.has(node.id)
+                    ? 'bg-gray-800/60 text-blue-100 hover:bg-gray-800'
+                    : node.isMainline
+                      ? 'text-white hover:bg-gray-800'
+                      : 'text-gray-400 hover:bg-gray-800'
               }`}
             >
-              {move.san}
+              {node.san}{assessment}
             </button>
-            {move.variations && move.variations.length > 0 && move.variations.map((variation, varIndex) => {
-              console.log('Rendering variation:', {
-                parentMove: move.san,
-                variationIndex: varIndex,
-                movesInVariation: variation.length
-              });
-              return (
-                <div key={varIndex} className="w-full">
-                  <div className="text-gray-500 ml-4 mt-1">({moveNumber}...)</div>
-                  <MoveLine
-                    moves={variation}
-                    startIndex={absoluteIndex + 1}
-                    currentMoveIndex={currentMoveIndex}
-                    onMoveClick={onMoveClick}
-                    isMainLine={false}
-                  />
-                </div>
-              );
-            })}
+            {timeSpent !== undefined && (
+              <span className="text-xs text-gray-500 select-none self-center" title="Time spent">
+                {formatTimeSpent(timeSpent)}
+              </span>
+            )}
+            {evaluation && <span className="text-gray-400 select-none">{evaluation}</span>}
+            {node.commentAfter && <Comment text={node.commentAfter} />}
+            {variations.map(variation => (
+              <div key={variation.id} className="w-full flex items-start gap-1 text-gray-500 ml-4 mt-1">
+                <span>(</span>
+                <MoveLine
+                  first={variation}
+                  currentNodeId={currentNodeId}
+                  currentLineIds={currentLineIds}
+                  onNodeClick={onNodeClick}
+                  onNodeContextMenu={onNodeContextMenu}
+                  timeControl={timeControl}
+                />
+                <span>)</span>
+              </div>
+            ))}
           </React.Fragment>
         );
       })}
@@ -96,15 +138,76 @@ const MoveLine: React.FC<MoveLineProps> = ({ moves, startIndex, currentMoveIndex
   );
 };
 
-const MoveTree: React.FC<MoveTreeProps> = ({ moves, currentMoveIndex, onMoveClick, className = '' }) => {
+const MoveContextMenu: React.FC<{
+  menu: ContextMenuState;
+  canEdit: (nodeId: string, edit: MoveTreeEdit) => boolean;
+  onEdit: (nodeId: string, edit: MoveTreeEdit) => void;
+  onClose: () => void;
+}> = ({ menu, canEdit, onEdit, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('click', onClose);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('click', onClose);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed z-50 bg-gray-800 border border-gray-700 rounded shadow-lg py-1 text-sm min-w-56"
+      style={{ left: menu.x, top: menu.y }}
+    >
+      {EDIT_ACTIONS.map(({ edit, label }) => (
+        <button
+          key={edit}
+          onClick={() => {
+            onEdit(menu.nodeId, edit);
+            onClose();
+          }}
+          disabled={!canEdit(menu.nodeId, edit)}
+          className="w-full flex justify-between gap-4 px-3 py-1 text-left text-gray-200 hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-transparent"
+        >
+          <span>{label}</span>
+          <span className="text-gray-500">{ShortcutService.getInstance().getShortcutLabel(edit)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const MoveTree: React.FC<MoveTreeProps> = ({
+  root,
+  gameComment,
+  currentNodeId,
+  currentLine = [],
+  onNodeClick,
+  canEdit,
+  onEdit,
+  timeControl = null,
+  className = ''
+}) => {
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+  const first = root.children[0];
+  const currentLineIds = new Set(currentLine.map(node => node.id));
+
+  const handleNodeContextMenu = (nodeId: string, event: React.MouseEvent) => {
+    if (!onEdit) return;
+    event.preventDefault();
+    setContextMenu({ nodeId, x: event.clientX, y: event.clientY });
+  };
+
   console.log('MoveTree rendering with:', {
-    movesCount: moves?.length || 0,
-    currentMoveIndex,
-    firstMove: moves?.[0]?.san,
-    hasVariations: moves?.some(m => m.variations?.length > 0)
+    currentNodeId,
+    firstMove: first?.san,
+    hasVariations: root.children.length > 1
   });
 
-  if (!moves || moves.length === 0) {
+  if (!first) {
     console.log('MoveTree: No moves to display');
     return (
       <div className={`bg-gray-900 rounded-lg shadow-lg shadow-black/20 p-4 ${className}`}>
@@ -116,15 +219,28 @@ const MoveTree: React.FC<MoveTreeProps> = ({ moves, currentMoveIndex, onMoveClic
   return (
     <div className={`bg-gray-900 rounded-lg shadow-lg shadow-black/20 p-4 ${className}`}>
       <div className="space-y-2">
+        {gameComment && (
+          <p className="text-emerald-300/80 italic">{gameComment}</p>
+        )}
         <MoveLine
-          moves={moves}
-          startIndex={0}
-          currentMoveIndex={currentMoveIndex}
-          onMoveClick={onMoveClick}
+          first={first}
+          currentNodeId={currentNodeId}
+          currentLineIds={currentLineIds}
+          onNodeClick={onNodeClick}
+          onNodeContextMenu={handleNodeContextMenu}
+          timeControl={timeControl}
         />
       </div>
+      {contextMenu && onEdit && (
+        <MoveContextMenu
+          menu={contextMenu}
+          canEdit={canEdit ?? (() => true)}
+          onEdit={onEdit}
+          onClose={closeContextMenu}
+        />
+      )}
     </div>
   );
 };
 
-export default MoveTree; 
\ No newline at end of file
+export default MoveTree;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import {
+  COMMANDS,
+  ShortcutService,
+  comboFromEvent,
+  formatShortcut,
+  getCommandLabel,
+  type CommandCategory,
+  type KeyCombo
+} from '../services/ShortcutService';
+import { type NavigationCommand } from '../services/NavigationService';
+
+interface ShortcutSettingsProps {
+  onClose: () => void;
+}
+
+const CATEGORIES: CommandCategory[] = ['General', 'Navigation', 'Editing', 'Analysis', 'Games'];
+
+// A key pressed for a command that another command already uses
+interface PendingConflict {
+  command: NavigationCommand;
+  combo: KeyCombo;
+  conflicts: NavigationCommand[];
+}
+
+const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ onClose }) => {
+  const shortcutService = ShortcutService.getInstance();
+  const [, setVersion] = useState(0);
+  const [recording, setRecording] = useState<NavigationCommand | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  useEffect(() => {
+    const observer = { onShortcutsChange: () => setVersion(version => version + 1) };
+    shortcutService.addObserver(observer);
+    return () => shortcutService.removeObserver(observer);
+  }, [shortcutService]);
+
+  // Keys pressed while the dialog is open are for the dialog, not the boards
+  // behind it, so they are caught before the boards' listeners see them
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation();
+      if (!recording) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+
+      e.preventDefault();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+
+      setRecording(null);
+      const conflicts = shortcutService.findConflicts(combo, recording);
+      if (conflicts.length > 0) {
+        setConflict({ command: recording, combo, conflicts });
+      } else {
+        shortcutService.assignShortcut(recording, combo);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, shortcutService, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-lg shadow-lg p-4 w-[40rem] max-h-[85vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white">Keyboard Shortcuts</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+
+        {conflict && (
+          <div className="mb-3 p-3 rounded bg-[#f7768e]/10 border border-[#f7768e]/40 text-sm text-gray-200">
+            <span className="font-mono">{formatShortcut(conflict.combo)}</span> is already used by{' '}
+            {conflict.conflicts.map(getCommandLabel).join(', ')}.
+            <div className="flex justify-end gap-2 mt-2">
+              <button
+                onClick={() => setConflict(null)}
+                className="px-3 py-1 text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  shortcutService.assignShortcut(conflict.command, conflict.combo);
+                  setConflict(null);
+                }}
+                className="px-3 py-1 bg-[#f7768e] text-white rounded hover:bg-[#f7768e]/80"
+              >
+                Use for {getCommandLabel(conflict.command)}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="overflow-y-auto space-y-4 pr-1">
+          {CATEGORIES.map(category => (
+            <div key={category}>
+              <h4 className="text-sm font-medium text-gray-400 mb-1">{category}</h4>
+              {COMMANDS.filter(definition => definition.category === category).map(({ command, label }) => (
+                <div key={command} className="flex items-center justify-between gap-2 py-1 border-b border-gray-800">
+                  <span className="text-sm text-gray-200">{label}</span>
+                  <div className="flex flex-wrap items-center justify-end gap-1">
+                    {shortcutService.getShortcuts(command).map(combo => (
+                      <span
+                        key={formatShortcut(combo)}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-800 text-xs font-mono text-gray-200"
+                      >
+                        {formatShortcut(combo)}
+                        <button
+                          onClick={() => shortcutService.removeShortcut(command, combo)}
+                          className="text-gray-500 hover:text-white"
+                          title="Remove shortcut"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    <button
+                      onClick={() => {
+                        setConflict(null);
+                        setRecording(command);
+                      }}
+                      className={`px-2 py-0.5 rounded text-xs ${
+                        recording === command ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                      }`}
+                    >
+                      {recording === command ? 'Press keys… (Esc to cancel)' : '+'}
+                    </button>
+                    {shortcutService.isCustomized(command) && (
+                      <button
+                        onClick={() => shortcutService.resetShortcuts(command)}
+                        className="px-2 py-0.5 rounded text-xs text-gray-400 hover:text-white"
+                        title="Restore the default keys"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between mt-4">
+          <button
+            onClick={() => shortcutService.resetShortcuts()}
+            className="px-4 py-2 text-gray-300 hover:text-white"
+          >
+            Reset all
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutSettings;
@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { Chess } from 'chess.js';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { UciEngine, createStockfishTransport, isWasmSupported } from '../services/UciEngine';
+import { uciMovesToSan, type UciInfo } from '../services/UciProtocol';
 
 interface EngineConfig {
   threads: number;
@@ -30,6 +32,8 @@ interface Variation {
   multipv: number;
 }
 
+const SICILIAN_FEN = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq c6 0 2';
+
 // Add a check for browser environment
 const hardwareConcurrency = typeof window !== 'undefined' ? navigator.hardwareConcurrency || 1 : 1;
 
@@ -48,158 +52,100 @@ export default function StockfishTest() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [variations, setVariations] = useState<Variation[]>([]);
   const [fenInput, setFenInput] = useState('');
-  const workerRef = useRef<Worker | null>(null);
+  const engineRef = useRef<UciEngine | null>(null);
+  // PV moves are played from the position being analysed
+  const analysedFenRef = useRef(DEFAULT_POSITION);
   const [isBlackToMove, setIsBlackToMove] = useState(false);
 
-  useEffect(() => {
-    const initEngine = () => {
-      try {
-        setEngineStatus('Initializing...');
-        
-        // Check WebAssembly support
-        const wasmSupported = typeof WebAssembly === 'object' && 
-          WebAssembly.validate(Uint8Array.of(0x0, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00));
+  const handleInfo = (uciInfo: UciInfo) => {
+    const info: AnalysisInfo = {
+      depth: uciInfo.depth,
+      score: uciInfo.score?.type === 'cp' ? uciInfo.score.value : undefined,
+      mate: uciInfo.score?.type === 'mate' ? uciInfo.score.value : undefined,
+      nodes: uciInfo.nodes,
+      nps: uciInfo.nps,
+      time: uciInfo.time,
+      multipv: uciInfo.multipv
+    };
 
-        // Update config with WebAssembly support status
-        setConfig(prev => ({ ...prev, wasmSupported }));
-        
-        // Create worker with appropriate version
-        const workerPath = wasmSupported ? '/stockfish.wasm.js' : '/stockfish.js';
-        const worker = new Worker(workerPath);
-        workerRef.current = worker;
-        
-        // Set up message handler
-        worker.onmessage = (e) => {
-          const message = e.data;
-
-          // Parse analysis info
-          if (message.startsWith('info')) {
-            const info: AnalysisInfo = {};
-            
-            const depthMatch = message.match(/depth (\d+)/);
-            if (depthMatch) info.depth = parseInt(depthMatch[1]);
-
-            const scoreMatch = message.match(/score (cp|mate) (-?\d+)/);
-            if (scoreMatch) {
-              const [, type, value] = scoreMatch;
-              const numericValue = parseInt(value);
-              if (type === 'cp') {
-                info.score = numericValue;
-              } else {
-                info.mate = numericValue;
-              }
-            }
+    const sanMoves = uciInfo.pv && uciInfo.score ? uciMovesToSan(analysedFenRef.current, uciInfo.pv) : [];
+    if (sanMoves.length > 0) {
+      setVariations(prev => {
+        const newVariations = [...prev];
+
+        // Convert centipawns to pawns and keep scores from engine's perspective
+        const scoreInPawns = (info.score ?? 0) / 100;  // Always divide by 100, keep original sign
+
+        // Create new variation
+        const newVariation = {
+          score: scoreInPawns,
+          mate: info.mate,  // Keep original mate score
+          moves: sanMoves,
+          depth: info.depth,
+          multipv: info.multipv ?? 1
+        };
 
-            const nodesMatch = message.match(/nodes (\d+)/);
-            if (nodesMatch) info.nodes = parseInt(nodesMatch[1]);
-
-            const npsMatch = message.match(/nps (\d+)/);
-            if (npsMatch) info.nps = parseInt(npsMatch[1]);
-
-            const multipvMatch = message.match(/multipv (\d+)/);
-            if (multipvMatch) info.multipv = parseInt(multipvMatch[1]);
-
-            const pvMatch = message.match(/pv (.+)/);
-            if (pvMatch && info.multipv && (info.score !== undefined || info.mate !== undefined)) {
-              const uciMoves = pvMatch[1].split(' ');
-              const chess = new Chess();
-              const sanMoves: string[] = [];
-              
-              for (const uciMove of uciMoves) {
-                try {
-                  const from = uciMove.slice(0, 2);
-                  const to = uciMove.slice(2, 4);
-                  const promotion = uciMove.length > 4 ? uciMove[4] : undefined;
-                  
-                  const moves = chess.moves({ verbose: true });
-                  const matchingMove = moves.find(m => 
-                    m.from === from && 
-                    m.to === to && 
-                    (!promotion || m.promotion === promotion)
-                  );
-                  
-                  if (matchingMove) {
-                    chess.move(matchingMove);
-                    sanMoves.push(matchingMove.san);
-                  }
-                } catch (err) {
-                  console.error('Error converting move:', uciMove, err);
-                  break;
-                }
-              }
-              
-              if (sanMoves.length > 0) {
-                setVariations(prev => {
-                  const newVariations = [...prev];
-                  
-                  // Convert centipawns to pawns and keep scores from engine's perspective
-                  const scoreInPawns = (info.score ?? 0) / 100;  // Always divide by 100, keep original sign
-                  
-                  // Create new variation
-                  const newVariation = {
-                    score: scoreInPawns,
-                    mate: info.mate,  // Keep original mate score
-                    moves: sanMoves,
-                    depth: info.depth,
-                    multipv: info.multipv!
-                  };
-
-                  // Update or add variation based on multipv
-                  const index = newVariations.findIndex(v => v.multipv === info.multipv);
-                  if (index !== -1) {
-                    newVariations[index] = newVariation;
-                  } else {
-                    newVariations.push(newVariation);
-                  }
-
-                  // Sort variations by score
-                  newVariations.sort((a, b) => {
-                    // Handle mate scores first
-                    if (a.mate !== undefined && b.mate !== undefined) {
-                      // For both players: positive mate is better than negative mate
-                      if (a.mate > 0 && b.mate > 0) return a.mate - b.mate; // Shorter mate is better
-                      if (a.mate < 0 && b.mate < 0) return b.mate - a.mate; // Longer mate is better
-                      return b.mate - a.mate; // Positive beats negative
-                    }
-                    // Mate beats non-mate
-                    if (a.mate !== undefined) return a.mate > 0 ? -1 : 1;
-                    if (b.mate !== undefined) return b.mate > 0 ? 1 : -1;
-                    // Compare regular scores - higher is always better from engine's perspective
-                    return b.score! - a.score!;
-                  });
-
-                  // Keep only top 5 variations
-                  return newVariations.slice(0, 5);
-                });
-              }
-            }
+        // Update or add variation based on multipv
+        const index = newVariations.findIndex(v => v.multipv === newVariation.multipv);
+        if (index !== -1) {
+          newVariations[index] = newVariation;
+        } else {
+          newVariations.push(newVariation);
+        }
 
-            setAnalysisInfo(info);
+        // Sort variations by score
+        newVariations.sort((a, b) => {
+          // Handle mate scores first
+          if (a.mate !== undefined && b.mate !== undefined) {
+            // For both players: positive mate is better than negative mate
+            if (a.mate > 0 && b.mate > 0) return a.mate - b.mate; // Shorter mate is better
+            if (a.mate < 0 && b.mate < 0) return b.mate - a.mate; // Longer mate is better
+            return b.mate - a.mate; // Positive beats negative
           }
+          // Mate beats non-mate
+          if (a.mate !== undefined) return a.mate > 0 ? -1 : 1;
+          if (b.mate !== undefined) return b.mate > 0 ? 1 : -1;
+          // Compare regular scores - higher is always better from engine's perspective
+          return b.score! - a.score!;
+        });
+
+        // Keep only top 5 variations
+        return newVariations.slice(0, 5);
+      });
+    }
 
-          if (message === 'uciok') {
-            setEngineStatus('UCI initialized');
-            worker.postMessage('setoption name MultiPV value 5');
-            worker.postMessage('setoption name Threads value ' + config.threads);
-            worker.postMessage('setoption name Hash value ' + config.hash);
-            worker.postMessage('setoption name Use NNUE value true');
-            worker.postMessage('setoption name UCI_AnalyseMode value true');
-            worker.postMessage('setoption name Skill Level value ' + config.skillLevel);
-            worker.postMessage('setoption name Contempt value ' + config.contempt);
-            worker.postMessage('isready');
-          } else if (message === 'readyok') {
-            setEngineStatus('Engine ready');
-          }
-        };
+    setAnalysisInfo(info);
+  };
 
-        // Set up error handler
-        worker.onerror = (e) => {
-          console.error('Worker error:', e);
-          setEngineStatus('Error');
-        };
+  useEffect(() => {
+    const initEngine = () => {
+      try {
+        setEngineStatus('Initializing...');
 
-        // Initialize UCI
-        worker.postMessage('uci');
+        // Update config with WebAssembly support status
+        setConfig(prev => ({ ...prev, wasmSupported: isWasmSupported() }));
+
+        const engine = new UciEngine(createStockfishTransport());
+        engineRef.current = engine;
+        engine.addObserver({
+          onStarted: () => setEngineStatus('UCI initialized'),
+          onStateChange: (state) => {
+            if (state === 'ready') {
+              setEngineStatus('Engine ready');
+              setIsAnalyzing(false);
+            }
+          },
+          onInfo: handleInfo
+        });
+
+        engine.start();
+        engine.setOption('MultiPV', 5);
+        engine.setOption('Threads', config.threads);
+        engine.setOption('Hash', config.hash);
+        engine.setOption('Use NNUE', true);
+        engine.setOption('UCI_AnalyseMode', true);
+        engine.setOption('Skill Level', config.skillLevel);
+        engine.setOption('Contempt', config.contempt);
       } catch (err) {
         console.error('Failed to initialize Stockfish:', err);
         setEngineStatus('Failed');
@@ -212,61 +158,41 @@ export default function StockfishTest() {
     }
 
     return () => {
-      if (workerRef.current) {
-        workerRef.current.postMessage('quit');
-        workerRef.current.terminate();
-      }
+      engineRef.current?.quit();
     };
   }, [config.skillLevel, config.contempt, config.threads, config.hash]);
 
   const updateEngineOption = (option: string, value: number) => {
-    if (!workerRef.current || engineStatus !== 'Engine ready') return;
-    workerRef.current.postMessage(`setoption name ${option} value ${value}`);
+    if (!engineRef.current || engineStatus !== 'Engine ready') return;
+    engineRef.current.setOption(option, value);
     setConfig(prev => ({ ...prev, [option.toLowerCase().replace(' ', '')]: value }));
   };
 
-  // Test functions
-  const testStartPos = () => {
-    if (!workerRef.current) {
+  // Analyses the position from a fresh list of variations
+  const analyse = (fen: string, newGame: boolean = false) => {
+    const engine = engineRef.current;
+    if (!engine) {
       console.error('Engine not initialized');
       return;
     }
 
-    try {
-      setIsAnalyzing(true);
-      setVariations([]);
-      setIsBlackToMove(false); // Starting position is White to move
-      workerRef.current.postMessage('stop');
-      workerRef.current.postMessage('setoption name MultiPV value 5');
-      workerRef.current.postMessage('position startpos');
-      workerRef.current.postMessage(`go depth ${config.depth} multipv 5`);
-    } catch (err) {
-      console.error('Analysis error:', err);
-    }
+    setIsBlackToMove(new Chess(fen).turn() === 'b');
+    setIsAnalyzing(true);
+    setVariations([]);
+    analysedFenRef.current = fen;
+    if (newGame) engine.newGame();
+    engine.setOption('MultiPV', 5);
+    engine.search({ fen, go: { depth: config.depth } });
   };
 
-  const testSpecificPos = () => {
-    if (!workerRef.current) {
-      console.error('Engine not initialized');
-      return;
-    }
+  // Test functions
+  const testStartPos = () => analyse(DEFAULT_POSITION);
 
-    try {
-      setIsAnalyzing(true);
-      setVariations([]);
-      setIsBlackToMove(false); // Sicilian position is White to move
-      workerRef.current.postMessage('stop');
-      workerRef.current.postMessage('setoption name MultiPV value 5');
-      workerRef.current.postMessage('position fen rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq c6 0 2');
-      workerRef.current.postMessage(`go depth ${config.depth} multipv 5`);
-    } catch (err) {
-      console.error('Analysis error:', err);
-    }
-  };
+  const testSpecificPos = () => analyse(SICILIAN_FEN);
 
   const stopAnalysis = () => {
-    if (!workerRef.current) return;
-    workerRef.current.postMessage('stop');
+    if (!engineRef.current) return;
+    engineRef.current.stop();
     setIsAnalyzing(false);
   };
 
@@ -312,140 +238,12 @@ export default function StockfishTest() {
 
   // Add analyze FEN function
   const analyzeFen = () => {
-    if (!workerRef.current) {
-      console.error('Engine not initialized');
-      return;
-    }
-
     if (!isValidFen(fenInput)) {
       alert('Invalid FEN position');
       return;
     }
 
-    try {
-      const chess = new Chess(fenInput);
-      setIsBlackToMove(chess.turn() === 'b');
-      setIsAnalyzing(true);
-      setVariations([]);
-      workerRef.current.postMessage('stop');
-      workerRef.current.postMessage('ucinewgame');
-      workerRef.current.postMessage('setoption name MultiPV value 5');
-      workerRef.current.postMessage('isready');
-      workerRef.current.postMessage(`position fen ${fenInput}`);
-      workerRef.current.postMessage(`go depth ${config.depth} multipv 5`);
-
-      // Update the message handler to use this position for move validation
-      workerRef.current.onmessage = (e: MessageEvent) => {
-        const message = e.data;
-
-        if (message.startsWith('info')) {
-          const info: AnalysisInfo = {};
-          
-          const depthMatch = message.match(/depth (\d+)/);
-          if (depthMatch) info.depth = parseInt(depthMatch[1]);
-
-          const scoreMatch = message.match(/score (cp|mate) (-?\d+)/);
-          if (scoreMatch) {
-            const [, type, value] = scoreMatch;
-            const numericValue = parseInt(value);
-            if (type === 'cp') {
-              info.score = numericValue;
-            } else {
-              info.mate = numericValue;
-            }
-          }
-
-          const nodesMatch = message.match(/nodes (\d+)/);
-          if (nodesMatch) info.nodes = parseInt(nodesMatch[1]);
-
-          const npsMatch = message.match(/nps (\d+)/);
-          if (npsMatch) info.nps = parseInt(npsMatch[1]);
-
-          const multipvMatch = message.match(/multipv (\d+)/);
-          if (multipvMatch) info.multipv = parseInt(multipvMatch[1]);
-
-          const pvMatch = message.match(/pv (.+)/);
-          if (pvMatch && info.multipv && (info.score !== undefined || info.mate !== undefined)) {
-            const uciMoves = pvMatch[1].split(' ');
-            const positionChess = new Chess(fenInput);
-            const sanMoves: string[] = [];
-            
-            for (const uciMove of uciMoves) {
-              try {
-                const from = uciMove.slice(0, 2);
-                const to = uciMove.slice(2, 4);
-                const promotion = uciMove.length > 4 ? uciMove[4] : undefined;
-                
-                const moves = positionChess.moves({ verbose: true });
-                const matchingMove = moves.find(m => 
-                  m.from === from && 
-                  m.to === to && 
-                  (!promotion || m.promotion === promotion)
-                );
-                
-                if (matchingMove) {
-                  positionChess.move(matchingMove);
-                  sanMoves.push(matchingMove.san);
-                }
-              } catch (err) {
-                console.error('Error converting move:', uciMove, err);
-                break;
-              }
-            }
-            
-            if (sanMoves.length > 0) {
-              setVariations(prev => {
-                const newVariations = [...prev];
-                
-                // Convert centipawns to pawns and keep scores from engine's perspective
-                const scoreInPawns = (info.score ?? 0) / 100;  // Always divide by 100, keep original sign
-                
-                // Create new variation
-                const newVariation = {
-                  score: scoreInPawns,
-                  mate: info.mate,  // Keep original mate score
-                  moves: sanMoves,
-                  depth: info.depth,
-                  multipv: info.multipv!
-                };
-
-                // Update or add variation based on multipv
-                const index = newVariations.findIndex(v => v.multipv === info.multipv);
-                if (index !== -1) {
-                  newVariations[index] = newVariation;
-                } else {
-                  newVariations.push(newVariation);
-                }
-
-                // Sort variations by score
-                newVariations.sort((a, b) => {
-                  // Handle mate scores first
-                  if (a.mate !== undefined && b.mate !== undefined) {
-                    // For both players: positive mate is better than negative mate
-                    if (a.mate > 0 && b.mate > 0) return a.mate - b.mate; // Shorter mate is better
-                    if (a.mate < 0 && b.mate < 0) return b.mate - a.mate; // Longer mate is better
-                    return b.mate - a.mate; // Positive beats negative
-                  }
-                  // Mate beats non-mate
-                  if (a.mate !== undefined) return a.mate > 0 ? -1 : 1;
-                  if (b.mate !== undefined) return b.mate > 0 ? 1 : -1;
-                  // Compare regular scores - higher is always better from engine's perspective
-                  return b.score! - a.score!;
-                });
-
-                // Keep only top 5 variations
-                return newVariations.slice(0, 5);
-              });
-            }
-          }
-
-          setAnalysisInfo(info);
-        }
-      };
-    } catch (err) {
-      console.error('Analysis error:', err);
-      setIsAnalyzing(false);
-    }
+    analyse(fenInput, true);
   };
 
   return (
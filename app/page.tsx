@@ -1,8 +1,9 @@
 'use client';
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import ChessViewer, { ChessViewerHandle } from './components/ChessViewer';
 import Layout from './components/Layout';
+import { BoardManager, type BoardManagerObserver } from './services/BoardManager';
 
 interface ChessTab {
   id: string;
@@ -20,6 +21,21 @@ export default function Home() {
   ]);
   const [activeTabId, setActiveTabId] = useState('1');
 
+  // The board in front receives the keyboard shortcuts and menu commands
+  useEffect(() => {
+    BoardManager.getInstance().setActiveBoard(activeTabId);
+  }, [activeTabId]);
+
+  // Boards can also be switched from the command palette
+  useEffect(() => {
+    const boardManager = BoardManager.getInstance();
+    const observer: BoardManagerObserver = (event, board) => {
+      if (event === 'activeBoardChanged' && board) setActiveTabId(board.id);
+    };
+    boardManager.addObserver(observer);
+    return () => boardManager.removeObserver(observer);
+  }, []);
+
   const createNewRef = () => ({
     current: null
   }) as React.MutableRefObject<ChessViewerHandle | null>;
@@ -71,12 +87,32 @@ export default function Home() {
     }
   }, [activeTabId, tabs]);
 
+  const handleSavePGN = useCallback(() => {
+    const activeTab = tabs.find(tab => tab.id === activeTabId);
+    if (activeTab?.ref.current) {
+      activeTab.ref.current.handleSavePGN();
+    } else {
+      console.error('ChessViewer ref not available');
+    }
+  }, [activeTabId, tabs]);
+
+  const handleCopyPGN = useCallback(() => {
+    const activeTab = tabs.find(tab => tab.id === activeTabId);
+    if (activeTab?.ref.current) {
+      activeTab.ref.current.handleCopyPGN();
+    } else {
+      console.error('ChessViewer ref not available');
+    }
+  }, [activeTabId, tabs]);
+
   return (
     <Layout 
       onFileUpload={handleFileUpload}
       onPastePGN={handlePaste}
       onPasteFEN={handlePasteFEN}
       onAddBoard={handleAddBoard}
+      onSavePGN={handleSavePGN}
+      onCopyPGN={handleCopyPGN}
     >
       <div className="flex flex-col h-full">
         {/* Tab Bar */}
@@ -108,7 +144,7 @@ export default function Home() {
         <div className="flex-1">
           {tabs.map(tab => (
             <div key={tab.id} style={{ display: activeTabId === tab.id ? 'block' : 'none' }}>
-              <ChessViewer ref={tab.ref} id={tab.id} name={tab.name} />
+              <ChessViewer ref={tab.ref} id={tab.id} name={tab.name} onAddBoard={handleAddBoard} />
             </div>
           ))}
         </div>
@@ -4,6 +4,8 @@ import { OpeningBookService } from './OpeningBookService';
 import { MoveTreeService } from './MoveTreeService';
 import { NavigationService } from './NavigationService';
 import { GameListService } from './GameListService';
+import { EditHistoryService } from './EditHistoryService';
+import { CommandRegistry, type Command } from './CommandRegistry';
 
 export interface BoardState {
   id: string;
@@ -14,6 +16,7 @@ export interface BoardState {
   moveTree: MoveTreeService;
   navigationService: NavigationService;
   gameListService: GameListService;
+  editHistory: EditHistoryService;
 }
 
 export type BoardManagerEvent = 'boardCreated' | 'boardRemoved' | 'activeBoardChanged';
@@ -25,7 +28,10 @@ export class BoardManager {
   private activeBoard: BoardState | null = null;
   private observers: BoardManagerObserver[] = [];
 
-  private constructor() {}
+  // The command palette offers the active board's commands and the other boards to switch to
+  private constructor() {
+    CommandRegistry.getInstance().addProvider(query => this.getCommands(query));
+  }
 
   public static getInstance(): BoardManager {
     if (!BoardManager.instance) {
@@ -39,22 +45,29 @@ export class BoardManager {
       throw new Error(`Board with id ${id} already exists`);
     }
 
-    // Create new instances for each board
+    // Create new instances for each board; the game edits its move tree and
+    // records the edits in its history, navigation goes through the game
+    const moveTree = new MoveTreeService();
+    const editHistory = new EditHistoryService();
+    const gameManager = new GameManager(moveTree, editHistory);
     const boardState: BoardState = {
       id,
       name,
-      gameManager: new GameManager(),
+      gameManager,
       engineService: new EngineAnalysisService(),
       openingBook: OpeningBookService.getInstance(),
-      moveTree: new MoveTreeService(),
-      navigationService: new NavigationService(),
-      gameListService: GameListService.getInstance()
+      moveTree,
+      navigationService: new NavigationService(gameManager),
+      gameListService: GameListService.getInstance(),
+      editHistory
     };
 
     this.boards.set(id, boardState);
     
     if (!this.activeBoard) {
       this.setActiveBoard(id);
+    } else {
+      boardState.navigationService.setEnabled(false);
     }
 
     this.notifyObservers('boardCreated', boardState);
@@ -70,6 +83,7 @@ export class BoardManager {
     if (board) {
       // Cleanup resources
       board.engineService.cleanup();
+      board.navigationService.cleanup();
       
       this.boards.delete(id);
       this.notifyObservers('boardRemoved', board);
@@ -91,6 +105,8 @@ export class BoardManager {
     const board = this.boards.get(id);
     if (board) {
       this.activeBoard = board;
+      // Keyboard shortcuts act on the board in front only
+      this.boards.forEach(other => other.navigationService.setEnabled(other === board));
       this.notifyObservers('activeBoardChanged', board);
     }
   }
@@ -99,6 +115,18 @@ export class BoardManager {
     return this.activeBoard;
   }
 
+  private getCommands(query: string): Command[] {
+    const switchCommands: Command[] = Array.from(this.boards.values())
+      .filter(board => board !== this.activeBoard)
+      .map(board => ({
+        id: `switchBoard:${board.id}`,
+        label: `Switch to ${board.name}`,
+        category: 'Boards',
+        run: () => this.setActiveBoard(board.id)
+      }));
+    return [...(this.activeBoard?.navigationService.getCommands(query) ?? []), ...switchCommands];
+  }
+
   public addObserver(observer: BoardManagerObserver): void {
     this.observers.push(observer);
   }
@@ -115,6 +143,7 @@ export class BoardManager {
     // Cleanup all boards
     this.boards.forEach(board => {
       board.engineService.cleanup();
+      board.navigationService.cleanup();
     });
     
     this.boards.clear();
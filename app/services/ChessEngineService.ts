@@ -1,18 +1,74 @@
 'use client';
 
-import { Chess } from 'chess.js';
+import { Chess, DEFAULT_POSITION, type Color } from 'chess.js';
+import { UciEngine, createStockfishTransport, type EngineTransport } from './UciEngine';
+import {
+  findOption,
+  normalizeOptionValue,
+  uciMovesToSan,
+  type UciGoOptions,
+  type UciInfo,
+  type UciOption,
+  type UciOptionValue,
+  type UciScore
+} from './UciProtocol';
+
+// Whose point of view scores are shown from
+export type ScorePerspective = 'white' | 'sideToMove';
+
+// What ends a search: reaching the depth, the time or the node count, or
+// for infinite, only being stopped
+export type SearchMode = 'depth' | 'infinite' | 'movetime' | 'nodes';
 
 export interface EngineSettings {
-  threads: number;
-  hash: number;
-  multiPv: number;
+  searchMode: SearchMode;
+  // How deep each analysis searches
   depth: number;
+  // Milliseconds to search for in movetime mode
+  movetime: number;
+  // Nodes to search in nodes mode
+  nodes: number;
+  scorePerspective: ScorePerspective;
+  // Shows the expected score from the engine's win, draw and loss chances
+  // in place of centipawns, where the engine gives them
+  showExpectedScore: boolean;
+  // Values for the engine's UCI options by name. Options the engine does
+  // not announce are left out, and options not given keep its default.
+  options: Record<string, UciOptionValue>;
 }
 
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  searchMode: 'depth',
+  depth: 40,
+  movetime: 10000,
+  nodes: 10000000,
+  scorePerspective: 'white',
+  showExpectedScore: false,
+  options: { Threads: 1, Hash: 2048, MultiPV: 4 }
+};
+
+// Set for analysis whenever the engine has them
+const ANALYSIS_OPTIONS: Record<string, UciOptionValue> = {
+  'Use NNUE': true,
+  UCI_AnalyseMode: true,
+  UCI_ShowWDL: true
+};
+
+// One line of the analysis. Scores are from White's point of view: a
+// positive score or mate favours White whoever is to move.
 export interface AnalysisMove {
+  // The engine's rank for the line, 1 being its best
+  multipv: number;
   move: string;
   score: number;
   mate?: number;
+  // White's win, draw and loss chances in permille, from engines that
+  // give them
+  wdl?: [number, number, number];
+  // Who is to move in the analysed position, where the pv starts
+  turn: Color;
+  // The move number of the pv's first move
+  moveNumber: number;
   depth: number;
   nodes: number;
   nps: number;
@@ -20,224 +76,260 @@ export interface AnalysisMove {
   pv?: string[];
 }
 
+export interface AnalysisOptions {
+  // Only these moves, in UCI notation, are searched. Moves not legal in
+  // the position are left out.
+  searchMoves?: string[];
+  // Analyses the position with the other side to move, to show what it
+  // threatens
+  threat?: boolean;
+}
+
 export interface AnalysisInfo {
   depth: number;
   nodes: number;
   nps: number;
 }
 
+// The score of a line from the chosen point of view
+export function getDisplayScore(line: AnalysisMove, perspective: ScorePerspective): { score: number; mate?: number } {
+  const sign = perspective === 'sideToMove' && line.turn === 'b' ? -1 : 1;
+  return {
+    score: line.score * sign,
+    mate: line.mate !== undefined ? line.mate * sign : undefined
+  };
+}
+
+// The win, draw and loss chances of a line from the chosen point of view
+export function getDisplayWdl(line: AnalysisMove, perspective: ScorePerspective): [number, number, number] | undefined {
+  if (!line.wdl) return undefined;
+  const [win, draw, loss] = line.wdl;
+  return perspective === 'sideToMove' && line.turn === 'b' ? [loss, draw, win] : line.wdl;
+}
+
+// Wins plus half the draws, from 0 to 1
+export function getExpectedScore(line: AnalysisMove, perspective: ScorePerspective): number | undefined {
+  const wdl = getDisplayWdl(line, perspective);
+  return wdl && (wdl[0] + wdl[1] / 2) / (wdl[0] + wdl[1] + wdl[2] || 1);
+}
+
+// "+0.31", "-1.5" or "-M3"
+export function formatScore(line: AnalysisMove, perspective: ScorePerspective, decimals: number = 2): string {
+  const { score, mate } = getDisplayScore(line, perspective);
+  if (mate !== undefined) return `${mate > 0 ? '+' : '-'}M${Math.abs(mate)}`;
+  return (score > 0 ? '+' : '') + score.toFixed(decimals);
+}
+
+// The position with the move passed to the other side, or null when the
+// side to move is in check and cannot pass
+export function getThreatFen(fen: string): string | null {
+  if (new Chess(fen).inCheck()) return null;
+
+  const [board, turn, castling, , halfMoves, fullMove] = fen.split(' ');
+  const moveNumber = parseInt(fullMove, 10) || 1;
+  return turn === 'w'
+    ? `${board} b ${castling} - ${halfMoves} ${moveNumber}`
+    : `${board} w ${castling} - ${halfMoves} ${moveNumber + 1}`;
+}
+
+export function getGoOptions(settings: EngineSettings): UciGoOptions {
+  switch (settings.searchMode) {
+    case 'infinite':
+      return { infinite: true };
+    case 'movetime':
+      return { movetime: settings.movetime };
+    case 'nodes':
+      return { nodes: settings.nodes };
+    default:
+      return { depth: settings.depth };
+  }
+}
+
 export class ChessEngineService {
-  private worker: Worker | null = null;
+  private engine: UciEngine | null = null;
   private engineVersion: string = '';
   private settings: EngineSettings;
   private onAnalysisUpdate?: (analysis: AnalysisMove[]) => void;
   private onInfoUpdate?: (info: AnalysisInfo) => void;
   private onVersionUpdate?: (version: string) => void;
+  private onOptionsUpdate?: (options: UciOption[]) => void;
+  // Lines by their multipv rank, so a line keeps its place when its first
+  // move changes from one depth to the next
   private currentAnalysis: AnalysisMove[] = [];
+  private analysedFen: string = DEFAULT_POSITION;
 
-  constructor(settings: EngineSettings) {
+  // The transport is Stockfish in a Web Worker unless another is given
+  constructor(settings: EngineSettings, private createTransport: () => EngineTransport = createStockfishTransport) {
     this.settings = settings;
   }
 
   initialize(
     onAnalysisUpdate: (analysis: AnalysisMove[]) => void,
     onInfoUpdate: (info: AnalysisInfo) => void,
-    onVersionUpdate: (version: string) => void
+    onVersionUpdate: (version: string) => void,
+    onOptionsUpdate?: (options: UciOption[]) => void
   ) {
     this.onAnalysisUpdate = onAnalysisUpdate;
     this.onInfoUpdate = onInfoUpdate;
     this.onVersionUpdate = onVersionUpdate;
+    this.onOptionsUpdate = onOptionsUpdate;
 
     if (typeof window === 'undefined') return;
 
     try {
-      const wasmSupported = typeof WebAssembly === 'object' && 
-        WebAssembly.validate(Uint8Array.of(0x0, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00));
-
-      this.worker = new Worker(wasmSupported ? '/stockfish.wasm.js' : '/stockfish.js');
-      this.setupMessageHandler();
+      this.engine = new UciEngine(this.createTransport());
+      this.engine.addObserver({
+        onStarted: () => this.handleStarted(),
+        onInfo: (info) => this.handleInfo(info)
+      });
       this.initializeEngine();
     } catch (error) {
       console.error('Failed to initialize Stockfish:', error);
     }
   }
 
-  private setupMessageHandler() {
-    if (!this.worker) return;
-
-    this.worker.onmessage = (e) => {
-      const message = e.data;
-      if (typeof message !== 'string') return;
+  // The engine has announced its options, so the settings can be given to it
+  private handleStarted() {
+    if (!this.engine) return;
 
-      if (message.startsWith('Stockfish')) {
-        this.engineVersion = message.split(' ')[1];
-        this.onVersionUpdate?.(this.engineVersion);
-      } else if (message.startsWith('info')) {
-        this.handleInfoMessage(message);
-      }
-    };
+    this.engineVersion = this.engine.getName().replace(/^Stockfish\s*/, '');
+    Object.entries({ ...ANALYSIS_OPTIONS, ...this.settings.options }).forEach(([name, value]) => {
+      this.sendOption(name, value);
+    });
+    this.onVersionUpdate?.(this.engineVersion);
+    this.onOptionsUpdate?.(this.engine.getOptions());
   }
 
-  private handleInfoMessage(message: string) {
-    const depthMatch = message.match(/depth (\d+)/);
-    const nodesMatch = message.match(/nodes (\d+)/);
-    const npsMatch = message.match(/nps (\d+)/);
-    const scoreMatch = message.match(/score (cp|mate) (-?\d+)/);
-    const multipvMatch = message.match(/multipv (\d+)/);
-    const pvMatch = message.match(/pv (.+?)(?=(?:bmc|string|depth|$))/);
+  // Options the engine does not have, and values they cannot take, are not sent
+  private sendOption(name: string, value: UciOptionValue) {
+    const option = this.engine && findOption(this.engine.getOptions(), name);
+    if (!option) return;
 
-    if (depthMatch || nodesMatch || npsMatch) {
-      this.onInfoUpdate?.({
-        depth: depthMatch ? parseInt(depthMatch[1]) : 0,
-        nodes: nodesMatch ? parseInt(nodesMatch[1]) : 0,
-        nps: npsMatch ? parseInt(npsMatch[1]) : 0
-      });
+    const normalized = normalizeOptionValue(option, value);
+    if (normalized !== undefined) {
+      this.engine!.setOption(option.name, normalized);
     }
+  }
 
-    if (pvMatch && scoreMatch && multipvMatch) {
-      this.processAnalysisLine(message, pvMatch, scoreMatch, multipvMatch, depthMatch, nodesMatch, npsMatch);
+  // The options the engine announced, empty until it has started
+  getOptions(): UciOption[] {
+    return this.engine?.getOptions() ?? [];
+  }
+
+  // Runs a button option, such as Clear Hash
+  pressButton(name: string) {
+    const option = this.engine && findOption(this.engine.getOptions(), name);
+    if (option?.type === 'button') {
+      this.engine!.setOption(option.name);
     }
   }
 
-  private processAnalysisLine(
-    message: string,
-    pvMatch: RegExpMatchArray,
-    scoreMatch: RegExpMatchArray,
-    multipvMatch: RegExpMatchArray,
-    depthMatch: RegExpMatchArray | null,
-    nodesMatch: RegExpMatchArray | null,
-    npsMatch: RegExpMatchArray | null
-  ) {
-    const moves = pvMatch[1].trim().split(/\s+/);
-    const [, scoreType, scoreValue] = scoreMatch;
-    const scoreNum = parseInt(scoreValue);
-    const depth = depthMatch ? parseInt(depthMatch[1]) : 0;
-    const nodes = nodesMatch ? parseInt(nodesMatch[1]) : 0;
-    const nps = npsMatch ? parseInt(npsMatch[1]) : 0;
-
-    const chess = new Chess();
-    const sanMoves: string[] = [];
-
-    for (const move of moves) {
-      try {
-        const from = move.slice(0, 2) as any;
-        const to = move.slice(2, 4) as any;
-        const promotion = move.length > 4 ? move[4] : undefined;
-
-        if (!from.match(/^[a-h][1-8]$/) || !to.match(/^[a-h][1-8]$/)) {
-          continue;
-        }
-
-        const moveObj = {
-          from,
-          to,
-          promotion: promotion ? promotion.toLowerCase() : undefined
-        };
-
-        const result = chess.move(moveObj);
-        if (result) {
-          sanMoves.push(result.san);
-        }
-      } catch (error) {
-        console.warn('Error converting move:', move, error);
-        break;
-      }
+  private handleInfo(info: UciInfo) {
+    if (info.depth !== undefined || info.nodes !== undefined || info.nps !== undefined) {
+      this.onInfoUpdate?.({
+        depth: info.depth ?? 0,
+        nodes: info.nodes ?? 0,
+        nps: info.nps ?? 0
+      });
     }
 
-    if (sanMoves.length > 0) {
-      this.updateAnalysis(sanMoves, scoreType, scoreNum, depth, nodes, nps);
+    if (info.pv && info.score) {
+      // PV moves are relative to the analysed position, not the standard start
+      const sanMoves = uciMovesToSan(this.analysedFen, info.pv);
+      if (sanMoves.length > 0) {
+        this.updateAnalysis(info, info.score, sanMoves);
+      }
     }
   }
 
-  private updateAnalysis(
-    sanMoves: string[],
-    scoreType: string,
-    scoreNum: number,
-    depth: number,
-    nodes: number,
-    nps: number
-  ) {
-    const firstMove = sanMoves[0];
-    const score = scoreType === 'cp' ? scoreNum / 100 : undefined;
-    const mate = scoreType === 'mate' ? scoreNum : undefined;
-
-    const newLine: AnalysisMove = {
-      move: firstMove,
-      score: score || 0,
-      mate,
-      depth,
-      nodes,
-      nps,
-      tbhits: 0,
+  // The engine ranks lines from the side to move's point of view, so they
+  // are kept in its order rather than sorted by their White scores
+  private updateAnalysis(info: UciInfo, uciScore: UciScore, sanMoves: string[]) {
+    const [, turn, , , , fullMove] = this.analysedFen.split(' ');
+    // Engines give scores for the side to move
+    const sign = turn === 'b' ? -1 : 1;
+    const multipv = info.multipv ?? 1;
+
+    this.currentAnalysis[multipv - 1] = {
+      multipv,
+      move: sanMoves[0],
+      score: uciScore.type === 'cp' ? (uciScore.value / 100) * sign : 0,
+      mate: uciScore.type === 'mate' ? uciScore.value * sign : undefined,
+      wdl: info.wdl && (sign === 1 ? info.wdl : [info.wdl[2], info.wdl[1], info.wdl[0]]),
+      turn: turn === 'b' ? 'b' : 'w',
+      moveNumber: parseInt(fullMove, 10) || 1,
+      depth: info.depth ?? 0,
+      nodes: info.nodes ?? 0,
+      nps: info.nps ?? 0,
+      tbhits: info.tbhits ?? 0,
       pv: sanMoves
     };
 
-    const existingIndex = this.currentAnalysis.findIndex(line => line?.move === firstMove);
-
-    if (existingIndex !== -1) {
-      this.currentAnalysis[existingIndex] = newLine;
-    } else {
-      this.currentAnalysis.push(newLine);
-    }
+    this.onAnalysisUpdate?.(this.currentAnalysis.slice(0, this.getMultiPv()).filter(Boolean));
+  }
 
-    const sortedAnalysis = this.currentAnalysis
-      .filter(Boolean)
-      .sort((a, b) => {
-        if (a.mate !== undefined && b.mate !== undefined) return b.mate - a.mate;
-        if (a.mate !== undefined) return -1;
-        if (b.mate !== undefined) return 1;
-        return (b.score || 0) - (a.score || 0);
-      })
-      .slice(0, this.settings.multiPv);
-
-    this.onAnalysisUpdate?.(sortedAnalysis);
+  private getMultiPv(): number {
+    const option = findOption(this.getOptions(), 'MultiPV');
+    return Number(this.settings.options.MultiPV ?? option?.default ?? 1);
   }
 
+  // Options are sent once the engine has said which it has
   private initializeEngine() {
-    if (!this.worker) return;
-
-    this.worker.postMessage('uci');
-    this.worker.postMessage(`setoption name MultiPV value ${this.settings.multiPv}`);
-    this.worker.postMessage(`setoption name Threads value ${this.settings.threads}`);
-    this.worker.postMessage(`setoption name Hash value ${this.settings.hash}`);
-    this.worker.postMessage('setoption name Use NNUE value true');
-    this.worker.postMessage('setoption name UCI_AnalyseMode value true');
-    this.worker.postMessage('isready');
+    this.engine?.start();
   }
 
-  startAnalysis(position: Chess) {
-    if (!this.worker) return;
+  // In threat mode the moves to search are ignored, as they are the other
+  // side's. Nothing is searched for a threat while in check.
+  startAnalysis(position: Chess, options: AnalysisOptions = {}) {
+    if (!this.engine) return;
 
-    this.worker.postMessage('stop');
     this.currentAnalysis = []; // Clear current analysis
-    this.worker.postMessage('position fen ' + position.fen());
-    this.worker.postMessage('isready');
-    this.worker.postMessage(`go depth ${this.settings.depth} multipv ${this.settings.multiPv}`);
+    const fen = options.threat ? getThreatFen(position.fen()) : position.fen();
+    if (!fen) {
+      this.engine.stop();
+      this.onAnalysisUpdate?.([]);
+      return;
+    }
+
+    const legalMoves = position.moves({ verbose: true }).map(move => move.lan);
+    const searchMoves = options.threat
+      ? []
+      : (options.searchMoves ?? []).filter(move => legalMoves.includes(move));
+
+    this.analysedFen = fen;
+    this.engine.search({
+      fen,
+      go: { ...getGoOptions(this.settings), searchmoves: searchMoves.length > 0 ? searchMoves : undefined }
+    });
   }
 
   stopAnalysis() {
-    if (!this.worker) return;
-    this.worker.postMessage('stop');
+    if (!this.engine) return;
+    this.engine.stop();
     this.currentAnalysis = []; // Clear current analysis
   }
 
+  // Sends the options that changed, going back to the engine's default
+  // for those no longer given. They reach the engine once the running
+  // search has stopped.
   updateSettings(newSettings: EngineSettings) {
-    if (!this.worker) return;
-
-    this.worker.postMessage('stop');
-    this.worker.postMessage(`setoption name MultiPV value ${newSettings.multiPv}`);
-    this.worker.postMessage(`setoption name Threads value ${newSettings.threads}`);
-    this.worker.postMessage(`setoption name Hash value ${newSettings.hash}`);
-    this.worker.postMessage('isready');
-
+    const previous = this.settings.options;
     this.settings = newSettings;
+    if (!this.engine) return;
+
+    this.engine.stop();
+    this.getOptions().forEach(option => {
+      const value = newSettings.options[option.name] ?? option.default;
+      if (value !== undefined && value !== (previous[option.name] ?? option.default)) {
+        this.sendOption(option.name, value);
+      }
+    });
   }
 
   cleanup() {
-    if (this.worker) {
-      this.worker.postMessage('quit');
-      this.worker.terminate();
-      this.worker = null;
+    if (this.engine) {
+      this.engine.quit();
+      this.engine = null;
     }
   }
-} 
\ No newline at end of file
+}
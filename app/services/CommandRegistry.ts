@@ -0,0 +1,116 @@
+'use client';
+
+// An action offered in the command palette and, for some, in the menus
+export interface Command {
+  id: string;
+  label: string;
+  category: string;
+  // Further words the palette matches, such as the players of a game
+  keywords?: string;
+  shortcut?: string;
+  icon?: string;
+  run(): void;
+}
+
+// Supplies commands that depend on what is typed or on the current game,
+// such as jumping to a move. Called on every search.
+export type CommandProvider = (query: string) => Command[];
+
+// Results shown by the palette at most
+export const COMMAND_SEARCH_LIMIT = 50;
+
+// Scores how well the query matches the text, or null when its characters
+// do not all appear in order. Runs of characters and matches at the start
+// of words score higher, so "ngm" prefers "New Game" over "Change the mode".
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  // Each place the query could begin is tried, so "pgn" finds the "PGN"
+  // in "Copy PGN" rather than stopping at the "p" of "Copy"
+  let best: number | null = null;
+  for (let start = haystack.indexOf(needle[0]); start !== -1; start = haystack.indexOf(needle[0], start + 1)) {
+    const score = scoreFrom(needle, haystack, start);
+    if (score === null) break;
+    if (best === null || score > best) best = score;
+  }
+  // Shorter texts are closer matches for the same characters
+  return best === null ? null : best - haystack.length * 0.01;
+}
+
+function scoreFrom(needle: string, haystack: string, start: number): number | null {
+  let score = 0;
+  let position = start - 1;
+  // Only characters following a matched one count as a run
+  let run = -1;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position + 1);
+    if (found === -1) return null;
+
+    run = found === position + 1 ? run + 1 : 0;
+    const atWordStart = found === 0 || /[\s.\-(]/.test(haystack[found - 1]);
+    score += 1 + run * 2 + (atWordStart ? 3 : 0);
+    position = found;
+  }
+  return score;
+}
+
+// The one place features add their commands. Registered commands come first
+// and keep their id; a provider's command with the same id is left out.
+export class CommandRegistry {
+  private static instance: CommandRegistry | null = null;
+  private commands = new Map<string, Command>();
+  private providers = new Set<CommandProvider>();
+
+  public static getInstance(): CommandRegistry {
+    if (!CommandRegistry.instance) {
+      CommandRegistry.instance = new CommandRegistry();
+    }
+    return CommandRegistry.instance;
+  }
+
+  // Returns a function that takes the commands away again
+  public register(commands: Command[]): () => void {
+    commands.forEach(command => this.commands.set(command.id, command));
+    return () => commands.forEach(command => {
+      if (this.commands.get(command.id) === command) {
+        this.commands.delete(command.id);
+      }
+    });
+  }
+
+  public addProvider(provider: CommandProvider): () => void {
+    this.providers.add(provider);
+    return () => this.providers.delete(provider);
+  }
+
+  public getCommands(query: string = ''): Command[] {
+    const commands = new Map(this.commands);
+    this.providers.forEach(provider => {
+      provider(query).forEach(command => {
+        if (!commands.has(command.id)) commands.set(command.id, command);
+      });
+    });
+    return Array.from(commands.values());
+  }
+
+  // Best matches first; an empty query lists every command in the order registered
+  public search(query: string, limit: number = COMMAND_SEARCH_LIMIT): Command[] {
+    const commands = this.getCommands(query);
+    if (!query.trim()) return commands.slice(0, limit);
+
+    return commands
+      .map(command => {
+        const labelScore = fuzzyScore(query, `${command.category}: ${command.label}`);
+        const keywordScore = command.keywords ? fuzzyScore(query, command.keywords) : null;
+        // A match on the keywords alone ranks just below the same match on the label
+        const score = Math.max(labelScore ?? -Infinity, keywordScore !== null ? keywordScore - 1 : -Infinity);
+        return { command, score };
+      })
+      .filter(({ score }) => score !== -Infinity)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ command }) => command);
+  }
+}
@@ -0,0 +1,86 @@
+// An edit that can be taken back and made again
+export interface EditCommand {
+  description: string;
+  undo(): void;
+  redo(): void;
+}
+
+export interface EditHistoryObserver {
+  onHistoryChange(): void;
+}
+
+// Edits kept for undo on each board
+export const EDIT_HISTORY_LIMIT = 100;
+
+export class EditHistoryService {
+  private undoStack: EditCommand[] = [];
+  private redoStack: EditCommand[] = [];
+  private observers: EditHistoryObserver[] = [];
+
+  constructor(private limit: number = EDIT_HISTORY_LIMIT) {}
+
+  // Records an edit that has just been made. Edits undone before it can no
+  // longer be redone.
+  public push(command: EditCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notifyObservers();
+  }
+
+  public undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+
+    command.undo();
+    this.redoStack.push(command);
+    this.notifyObservers();
+    return true;
+  }
+
+  public redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+
+    command.redo();
+    this.undoStack.push(command);
+    this.notifyObservers();
+    return true;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public getUndoDescription(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.description;
+  }
+
+  public getRedoDescription(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.description;
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyObservers();
+  }
+
+  public addObserver(observer: EditHistoryObserver): void {
+    this.observers.push(observer);
+  }
+
+  public removeObserver(observer: EditHistoryObserver): void {
+    this.observers = this.observers.filter(obs => obs !== observer);
+  }
+
+  private notifyObservers(): void {
+    this.observers.forEach(observer => observer.onHistoryChange());
+  }
+}
@@ -1,12 +1,22 @@
 'use client';
 
 import { Chess } from 'chess.js';
-import { ChessEngineService, type EngineSettings, type AnalysisMove, type AnalysisInfo } from './ChessEngineService';
+import {
+  ChessEngineService,
+  type EngineSettings,
+  type AnalysisMove,
+  type AnalysisInfo,
+  type AnalysisOptions
+} from './ChessEngineService';
+import { type UciOption } from './UciProtocol';
 
 export interface AnalysisObserver {
   onAnalysisUpdate(analysis: AnalysisMove[]): void;
   onInfoUpdate(info: AnalysisInfo): void;
   onEngineStatusChange(isAnalyzing: boolean): void;
+  // The engine has said which version it is and which options it has
+  onEngineStarted?(version: string, options: UciOption[]): void;
+  onAnalysisOptionsChange?(options: AnalysisOptions): void;
 }
 
 export class EngineAnalysisService {
@@ -15,6 +25,11 @@ export class EngineAnalysisService {
   private observers: Set<AnalysisObserver>;
   private isAnalyzing: boolean = false;
   private currentPosition: Chess | null = null;
+  private engineVersion: string = '';
+  private engineOptions: UciOption[] = [];
+  private analysisOptions: AnalysisOptions = {};
+  // The position the moves to search were picked in
+  private searchMovesFen: string | null = null;
 
   constructor() {
     this.observers = new Set();
@@ -47,26 +62,88 @@ export class EngineAnalysisService {
     this.observers.forEach(observer => observer.onEngineStatusChange(isAnalyzing));
   }
 
+  private notifyAnalysisOptionsChange() {
+    this.observers.forEach(observer => observer.onAnalysisOptionsChange?.(this.analysisOptions));
+  }
+
+  private notifyEngineStarted() {
+    this.observers.forEach(observer => observer.onEngineStarted?.(this.engineVersion, this.engineOptions));
+  }
+
   public initialize(settings: EngineSettings) {
     if (this.engineService) {
       this.engineService.cleanup();
     }
 
+    this.engineVersion = '';
+    this.engineOptions = [];
     this.engineService = new ChessEngineService(settings);
     this.engineService.initialize(
       (analysis) => this.notifyAnalysisUpdate(analysis),
       (info) => this.notifyInfoUpdate(info),
-      () => {} // Version update not needed here
+      (version) => {
+        this.engineVersion = version;
+      },
+      (options) => {
+        this.engineOptions = options;
+        this.notifyEngineStarted();
+      }
     );
   }
 
+  public getEngineVersion(): string {
+    return this.engineVersion;
+  }
+
+  // Empty until the engine has started
+  public getEngineOptions(): UciOption[] {
+    return this.engineOptions;
+  }
+
+  public pressButton(name: string) {
+    this.engineService?.pressButton(name);
+  }
+
+  // Moves picked to search belong to the position they were picked in,
+  // so they are dropped once another position is analysed
   public startAnalysis(position: Chess) {
     if (!this.engineService) return;
 
+    if (this.analysisOptions.searchMoves && this.searchMovesFen !== position.fen()) {
+      this.analysisOptions = { ...this.analysisOptions, searchMoves: undefined };
+      this.searchMovesFen = null;
+      this.notifyAnalysisOptionsChange();
+    }
+
     this.currentPosition = position;
     this.isAnalyzing = true;
     this.notifyEngineStatusChange(true);
-    this.engineService.startAnalysis(position);
+    this.engineService.startAnalysis(position, this.analysisOptions);
+  }
+
+  public getAnalysisOptions(): AnalysisOptions {
+    return this.analysisOptions;
+  }
+
+  // Restricts the search to the given moves of the position, in UCI
+  // notation; no moves searches them all
+  public setSearchMoves(position: Chess, moves: string[]) {
+    this.analysisOptions = { ...this.analysisOptions, searchMoves: moves.length > 0 ? moves : undefined };
+    this.searchMovesFen = moves.length > 0 ? position.fen() : null;
+    this.notifyAnalysisOptionsChange();
+    this.restartAnalysis();
+  }
+
+  public setThreatMode(threat: boolean) {
+    this.analysisOptions = { ...this.analysisOptions, threat };
+    this.notifyAnalysisOptionsChange();
+    this.restartAnalysis();
+  }
+
+  private restartAnalysis() {
+    if (this.isAnalyzing && this.currentPosition) {
+      this.engineService?.startAnalysis(this.currentPosition, this.analysisOptions);
+    }
   }
 
   public stopAnalysis() {
@@ -91,9 +168,7 @@ export class EngineAnalysisService {
     this.engineService.updateSettings(settings);
     
     // If currently analyzing, restart analysis with new settings
-    if (this.isAnalyzing && this.currentPosition) {
-      this.engineService.startAnalysis(this.currentPosition);
-    }
+    this.restartAnalysis();
   }
 
   public cleanup() {
@@ -104,6 +179,10 @@ export class EngineAnalysisService {
     this.observers.clear();
     this.isAnalyzing = false;
     this.currentPosition = null;
+    this.engineVersion = '';
+    this.engineOptions = [];
+    this.analysisOptions = {};
+    this.searchMovesFen = null;
   }
 
   public isEngineAnalyzing(): boolean {
@@ -0,0 +1,80 @@
+import { type MoveNode } from './MoveTreeService';
+
+export interface TimeControl {
+  // Seconds on each clock at the start
+  initial: number;
+  // Seconds added after each move
+  increment: number;
+}
+
+export interface GameClocks {
+  white?: number;
+  black?: number;
+}
+
+// Reads the first period of a TimeControl tag such as "180+2", "600" or
+// "40/7200:3600". Unknown ("?") and untimed ("-") games have none.
+export function parseTimeControl(value?: string): TimeControl | null {
+  const period = value?.split(':')[0];
+  const match = period?.match(/^(?:\d+\/)?(\d+)(?:\+(\d+))?$/);
+  if (!match) return null;
+
+  return { initial: parseInt(match[1], 10), increment: match[2] ? parseInt(match[2], 10) : 0 };
+}
+
+const isWhiteMove = (node: MoveNode) => node.ply % 2 === 1;
+
+// The clock of the side that moved, from the [%clk] of this move or the
+// last one recorded before it on the way back to the start
+function lastClock(node: MoveNode | null, white: boolean): number | undefined {
+  for (let current = node; current?.parent; current = current.parent) {
+    if (isWhiteMove(current) === white && current.clock !== undefined) {
+      return current.clock;
+    }
+  }
+  return undefined;
+}
+
+// Both clocks as they stood after the move. Once one side's clock is known
+// the other starts from the time control until its first recorded move.
+export function getClocks(node: MoveNode, timeControl: TimeControl | null = null): GameClocks {
+  const white = lastClock(node, true);
+  const black = lastClock(node, false);
+  if (white === undefined && black === undefined) return {};
+
+  return {
+    white: white ?? timeControl?.initial,
+    black: black ?? timeControl?.initial
+  };
+}
+
+// Seconds spent on the move, from [%emt] or else the fall of the mover's
+// clock since their previous move, allowing for the increment
+export function getTimeSpent(node: MoveNode, timeControl: TimeControl | null = null): number | undefined {
+  if (node.elapsedTime !== undefined) return node.elapsedTime;
+  if (node.clock === undefined || !node.parent) return undefined;
+
+  const previousMove = node.parent.parent;
+  const previousClock = previousMove?.parent ? previousMove.clock : timeControl?.initial;
+  if (previousClock === undefined) return undefined;
+
+  return Math.max(0, previousClock - node.clock + (timeControl?.increment ?? 0));
+}
+
+// A clock as shown beside the board: 1:05:03, 3:12 or 0:09.5 in the last ten seconds
+export function formatClock(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor(seconds / 60) % 60;
+  const secondsText = seconds < 10
+    ? (Math.floor(seconds * 10) / 10).toFixed(1).padStart(4, '0')
+    : String(Math.floor(seconds) % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secondsText}`
+    : `${minutes}:${secondsText}`;
+}
+
+// Time spent as shown in the notation: 12s, or 1:05 from a minute up
+export function formatTimeSpent(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  return formatClock(Math.round(seconds));
+}
@@ -2,31 +2,67 @@
 
 import { Chess } from 'chess.js';
 import type { Square } from 'chess.js';
-import { PgnService, type PgnMove, type PgnGame, type PgnLoadResult } from './PgnService';
-import { MoveTreeService } from './MoveTreeService';
+import { PgnService, type PgnMove, type PgnGame, type PgnHeaders, type PgnLoadResult, type PgnParseOptions } from './PgnService';
+import {
+  MoveTreeService,
+  type AddMoveOptions,
+  type MoveAnnotations,
+  type MoveTreeEdit,
+  type MoveTreeSnapshot
+} from './MoveTreeService';
+import { EditHistoryService } from './EditHistoryService';
+import { PositionCache } from './PositionCache';
+import { PgnImportService, type PgnImportOptions, type PgnImportResult } from './PgnImportService';
+
+const EDIT_DESCRIPTIONS: Record<MoveTreeEdit, string> = {
+  promoteVariation: 'Promote variation',
+  moveVariationUp: 'Move variation up',
+  moveVariationDown: 'Move variation down',
+  deleteVariation: 'Delete variation',
+  deleteRemainingMoves: 'Delete remaining moves',
+  deleteMovesBefore: 'Delete previous moves'
+};
 
 export interface PositionObserver {
   onPositionChange(position: Chess, moveIndex: number): void;
 }
 
+// Everything an edit can change, restored on undo
+interface GameSnapshot {
+  tree: MoveTreeSnapshot;
+  headers: PgnHeaders;
+}
+
 export class GameManager {
   private static instance: GameManager | null = null;
   private chess: Chess;
-  private moveHistory: PgnMove[];
-  private currentMoveIndex: number;
   private observers: Set<PositionObserver>;
   private pgnService: PgnService;
+  private pgnImporter: PgnImportService;
   private moveTreeService: MoveTreeService;
+  private editHistory: EditHistoryService;
+  private positions = new PositionCache();
+  // Tree node the current position was built for
+  private positionNodeId: string | null = null;
   private games: PgnGame[] = [];
   private currentGame: Chess | null = null;
-
-  constructor() {
+  private headers: PgnHeaders = {};
+
+  // The board keeps its position in step with the cursor of the move tree,
+  // whether the cursor is moved here or directly on the tree
+  constructor(
+    moveTreeService: MoveTreeService = new MoveTreeService(),
+    editHistory: EditHistoryService = new EditHistoryService()
+  ) {
     this.chess = new Chess();
-    this.moveHistory = [];
-    this.currentMoveIndex = -1;
     this.observers = new Set();
     this.pgnService = PgnService.getInstance();
-    this.moveTreeService = new MoveTreeService();
+    this.pgnImporter = new PgnImportService();
+    this.moveTreeService = moveTreeService;
+    this.editHistory = editHistory;
+    this.moveTreeService.addObserver({
+      onMoveTreeChanged: () => this.syncPosition()
+    });
   }
 
   public static getInstance(): GameManager {
@@ -46,105 +82,146 @@ export class GameManager {
 
   private notifyObservers() {
     this.observers.forEach(observer => {
-      observer.onPositionChange(this.chess, this.currentMoveIndex);
+      observer.onPositionChange(this.chess, this.getCurrentMoveIndex());
+    });
+  }
+
+  // Switches to the position of the node when the cursor has moved to
+  // another one. Every node stores the FEN it reaches, so this is a lookup
+  // rather than a replay from the start.
+  private syncPosition() {
+    const node = this.moveTreeService.getCurrentNode();
+    if (node.id === this.positionNodeId) return;
+
+    try {
+      this.chess = this.positions.get(node);
+      this.positionNodeId = node.id;
+      this.notifyObservers();
+    } catch (error) {
+      console.error('Failed to navigate to move:', error);
+    }
+  }
+
+  private setHeaders(headers: PgnHeaders) {
+    this.headers = headers;
+    this.positions.setHeaders(headers);
+    // Rebuild the position even if the cursor stays put
+    this.positionNodeId = null;
+  }
+
+  private getSnapshot(): GameSnapshot {
+    return { tree: this.moveTreeService.getSnapshot(), headers: { ...this.headers } };
+  }
+
+  private restoreSnapshot(snapshot: GameSnapshot) {
+    this.setHeaders({ ...snapshot.headers });
+    this.moveTreeService.restoreSnapshot(snapshot.tree);
+  }
+
+  // Runs an edit and records it for undo if it changed the game
+  private recordEdit(description: string, edit: () => boolean): boolean {
+    const before = this.getSnapshot();
+    if (!edit()) return false;
+
+    const after = this.getSnapshot();
+    this.editHistory.push({
+      description,
+      undo: () => this.restoreSnapshot(before),
+      redo: () => this.restoreSnapshot(after)
     });
+    return true;
+  }
+
+  undo(): boolean {
+    return this.editHistory.undo();
+  }
+
+  redo(): boolean {
+    return this.editHistory.redo();
+  }
+
+  getEditHistory(): EditHistoryService {
+    return this.editHistory;
   }
 
   getCurrentPosition(): Chess {
     return this.chess;
   }
 
+  getMoveTree(): MoveTreeService {
+    return this.moveTreeService;
+  }
+
   getMoveHistory(): PgnMove[] {
-    return this.moveHistory;
+    return this.moveTreeService.getMoves();
   }
 
   getCurrentMoveIndex(): number {
-    return this.currentMoveIndex;
+    return this.moveTreeService.getCurrentMoveIndex();
   }
 
-  goToMove(moveIndex: number): boolean {
-    if (moveIndex < -1 || moveIndex >= this.moveHistory.length) return false;
+  getStartFen(): string {
+    return this.moveTreeService.getStartFen();
+  }
 
-    try {
-      // Reset to initial position
-      this.chess = new Chess();
-      this.currentMoveIndex = -1;
-
-      // Replay moves up to target index
-      if (moveIndex >= 0) {
-        for (let i = 0; i <= moveIndex; i++) {
-          this.chess.move(this.moveHistory[i].san);
-        }
-        this.currentMoveIndex = moveIndex;
-      }
+  goToMove(moveIndex: number): boolean {
+    return this.moveTreeService.goToMove(moveIndex);
+  }
 
-      // Update move tree service
-      this.moveTreeService.goToMove(moveIndex);
-      
-      this.notifyObservers();
-      return true;
-    } catch (error) {
-      console.error('Failed to navigate to move:', error);
-      return false;
-    }
+  goToNode(id: string): boolean {
+    return this.moveTreeService.goToNode(id);
   }
 
-  makeMove(from: Square, to: Square, promotion?: string): boolean {
+  // Moves played where the game continues differently become variations,
+  // unless options.overwrite is set
+  makeMove(from: Square, to: Square, promotion?: string, options: AddMoveOptions = {}): boolean {
     try {
-      const move = this.chess.move({ 
+      const chess = new Chess(this.chess.fen());
+      const move = chess.move({ 
         from, 
         to, 
         promotion: promotion as 'q' | 'r' | 'b' | 'n' | undefined 
       });
       if (!move) return false;
 
-      // Create new move object
-      const newMove: PgnMove = {
-        san: move.san,
-        fen: this.chess.fen(),
-        variations: []
-      };
-
-      // Update move history
-      this.moveHistory = [...this.moveHistory.slice(0, this.currentMoveIndex + 1), newMove];
-      this.currentMoveIndex++;
-
-      // Update move tree service
-      this.moveTreeService.loadGame({
-        pgn: this.chess.pgn(),
-        moves: this.moveHistory,
-        headers: this.chess.header()
+      // The move tree moves its cursor to the new move, which updates the board.
+      // Playing a move that is already there only navigates, overwriting or not.
+      const newMove = { san: move.san, fen: chess.fen() };
+      const exists = this.moveTreeService.getCurrentNode().children.some(child => child.san === move.san);
+      if (exists) {
+        this.moveTreeService.addMove(newMove);
+        return true;
+      }
+      return this.recordEdit(`Play ${move.san}`, () => {
+        this.moveTreeService.addMove(newMove, options);
+        return true;
       });
-
-      this.notifyObservers();
-      return true;
     } catch (error) {
       console.error('Failed to make move:', error);
       return false;
     }
   }
 
-  loadPGN(pgnText: string): PgnLoadResult {
+  loadPGN(pgnText: string, options: PgnParseOptions = {}): PgnLoadResult {
     try {
-      const result = this.pgnService.loadFromText(pgnText);
+      const result = this.pgnService.loadFromText(pgnText, options);
       if (result.success && result.games.length > 0) {
-        this.chess = new Chess();
-        this.moveHistory = result.games[0].moves;
-        this.currentMoveIndex = -1;
-        this.notifyObservers();
+        this.setHeaders({ ...result.games[0].headers });
+        this.moveTreeService.loadGame(result.games[0]);
+        this.editHistory.clear();
       }
       return result;
     } catch (error) {
       console.error('Failed to load PGN:', error);
-      return { success: false, games: [], error: 'Failed to load PGN' };
+      return { success: false, games: [], diagnostics: [], error: 'Failed to load PGN' };
     }
   }
 
-  async loadPGNFromFile(file: File): Promise<PgnLoadResult> {
+  async loadPGNFromFile(file: File, options: PgnImportOptions = {}): Promise<PgnImportResult> {
     try {
       console.log('GameManager: Starting to load PGN file');
-      const result = await this.pgnService.loadFromFile(file);
-      console.log('GameManager: PgnService result:', {
+      const result = await this.pgnImporter.importFile(file, options);
+      console.log('GameManager: Import result:', {
         success: result.success,
         gamesCount: result.games.length,
         firstGameHeaders: result.games[0]?.headers
@@ -153,33 +230,22 @@ export class GameManager {
       if (result.success && result.games.length > 0) {
         // Store the first game's headers before loading
         const firstGame = result.games[0];
-        const headers = { ...firstGame.headers };  // Make a copy of headers
-        console.log('GameManager: Preserved headers:', headers);
-
-        // Reset chess instance and load first game
-        this.chess = new Chess();
-        
-        // Set headers in chess instance
-        Object.entries(headers).forEach(([key, value]) => {
-          if (value) this.chess.header(key, value);
-        });
-        
-        // Set move history
-        this.moveHistory = firstGame.moves;
-        this.currentMoveIndex = -1;
+        this.setHeaders({ ...firstGame.headers });
+        console.log('GameManager: Preserved headers:', this.headers);
 
-        // Notify observers
-        this.notifyObservers();
+        // Load the first game; the board follows the move tree to its start position
+        this.moveTreeService.loadGame(firstGame);
+        this.editHistory.clear();
 
         console.log('GameManager: Game loaded with headers:', {
           headers: this.chess.header(),
-          moveCount: this.moveHistory.length
+          moveCount: firstGame.moves.length
         });
       }
       return result;
     } catch (error) {
       console.error('GameManager: Failed to load PGN from file:', error);
-      return { success: false, games: [], error: 'Failed to load PGN from file' };
+      return { success: false, games: [], diagnostics: [], cancelled: false, encoding: options.encoding ?? 'utf-8', error: 'Failed to load PGN from file' };
     }
   }
 
@@ -188,12 +254,16 @@ export class GameManager {
       const newPosition = new Chess();
       newPosition.load(fen);
 
-      this.chess = newPosition;
-      this.moveHistory = [];
-      this.currentMoveIndex = -1;
-
-      this.notifyObservers();
-      return true;
+      return this.recordEdit('Set up position', () => {
+        this.setHeaders({});
+        this.moveTreeService.loadGame({
+          pgn: '',
+          moves: [],
+          headers: {},
+          startFen: newPosition.fen()
+        });
+        return true;
+      });
     } catch (error) {
       console.error('Failed to load FEN:', error);
       return false;
@@ -201,17 +271,38 @@ export class GameManager {
   }
 
   addVariation(moveIndex: number, moves: PgnMove[]) {
-    if (moveIndex >= 0 && moveIndex < this.moveHistory.length) {
-      this.moveHistory[moveIndex].variations.push(moves);
-      this.notifyObservers();
+    const node = this.moveTreeService.getMainlineNode(moveIndex);
+    if (moveIndex >= 0 && node) {
+      this.recordEdit('Add variation', () => this.moveTreeService.addVariation(node.id, moves));
     }
   }
 
+  applyEdit(nodeId: string, edit: MoveTreeEdit): boolean {
+    return this.recordEdit(EDIT_DESCRIPTIONS[edit], () => this.moveTreeService.applyEdit(nodeId, edit));
+  }
+
+  annotateMove(nodeId: string, annotations: MoveAnnotations): boolean {
+    return this.recordEdit('Edit annotation', () => this.moveTreeService.annotateMove(nodeId, annotations));
+  }
+
+  setGameComment(comment: string | undefined) {
+    this.recordEdit('Edit game comment', () => {
+      this.moveTreeService.setGameComment(comment);
+      return true;
+    });
+  }
+
+  setHeader(name: string, value: string) {
+    this.recordEdit(`Edit ${name}`, () => {
+      this.setHeaders({ ...this.headers, [name]: value });
+      return true;
+    });
+  }
+
   reset() {
-    this.chess = new Chess();
-    this.moveHistory = [];
-    this.currentMoveIndex = -1;
-    this.notifyObservers();
+    this.setHeaders({});
+    this.moveTreeService.reset();
+    this.editHistory.clear();
   }
 
   public loadGame(game: PgnGame) {
@@ -224,40 +315,20 @@ export class GameManager {
         headers: game.headers
       });
 
-      // Reset to initial position
-      this.chess = new Chess();
-      
-      // Load the PGN with headers
-      const pgnWithHeaders = Object.entries(game.headers)
-        .map(([key, value]) => `[${key} "${value}"]`)
-        .join('\n') + '\n\n' + game.pgn;
-      
-      console.log('GameManager: Loading PGN with headers:', pgnWithHeaders);
-      try {
-        this.chess.loadPgn(pgnWithHeaders);
-      } catch (error) {
-        throw new Error('Failed to load PGN');
-      }
-
-      // Set the move history
-      this.moveHistory = game.moves;
-      this.currentMoveIndex = -1;
+      // Start from the game's initial position; its moves were validated when parsed
+      this.setHeaders({ ...game.headers });
 
-      // Update move tree service first
+      // Loading the move tree puts the board on the start position and notifies observers
       console.log('GameManager: Updating MoveTreeService with moves:', {
         movesCount: game.moves.length,
         moves: game.moves
       });
       this.moveTreeService.loadGame(game);
-      
-      // Notify observers of the new position
-      console.log('GameManager: Notifying observers');
-      this.notifyObservers();
+      this.editHistory.clear();
 
       console.log('GameManager: Game loaded successfully', {
         currentPosition: this.chess.fen(),
-        moveHistoryLength: this.moveHistory.length,
-        currentMoveIndex: this.currentMoveIndex,
+        currentMoveIndex: this.getCurrentMoveIndex(),
         moveTreeMoves: this.moveTreeService.getMoves().length,
         headers: this.chess.header()
       });
@@ -269,7 +340,21 @@ export class GameManager {
     }
   }
 
+  getHeaders(): PgnHeaders {
+    return this.headers;
+  }
+
+  exportPGN(): string {
+    return this.pgnService.toPgn({
+      pgn: '',
+      moves: this.moveTreeService.getMoves(),
+      headers: this.headers,
+      comment: this.moveTreeService.getGameComment(),
+      startFen: this.moveTreeService.getStartFen()
+    });
+  }
+
   public getGames(): PgnGame[] {
     return this.games;
   }
-} 
\ No newline at end of file
+}
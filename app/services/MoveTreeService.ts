@@ -1,20 +1,84 @@
+import { DEFAULT_POSITION } from 'chess.js';
 import { type PgnMove, type PgnGame } from './PgnService';
 
+// A position in the game tree. The root is the start position and has no
+// move; every other node is reached by playing `san` from its parent.
+// children[0] continues the line, later children are its variations.
+export interface MoveNode extends Omit<PgnMove, 'variations'> {
+  id: string;
+  parent: MoveNode | null;
+  children: MoveNode[];
+  // True when every move from the start position is a first child
+  isMainline: boolean;
+  // Half-moves played since the standard starting position, taken from the
+  // start FEN, so the ply of 1. e4 is 1 and of 1... e5 is 2
+  ply: number;
+}
+
+// A copy of the tree that keeps its node ids, for undo
+export interface MoveTreeSnapshot {
+  root: MoveNodeSnapshot;
+  startFen: string;
+  gameComment?: string;
+  currentNodeId: string;
+}
+
+interface MoveNodeSnapshot extends Omit<PgnMove, 'variations'> {
+  id: string;
+  children: MoveNodeSnapshot[];
+}
+
+export type MoveAnnotations = Partial<Pick<PgnMove, 'commentBefore' | 'commentAfter' | 'nags' | 'shapes'>>;
+
+export interface AddMoveOptions {
+  // Replace the moves after the current position instead of adding a variation
+  overwrite?: boolean;
+}
+
+// Edits that restructure the tree around a move
+export type MoveTreeEdit =
+  | 'promoteVariation'
+  | 'moveVariationUp'
+  | 'moveVariationDown'
+  | 'deleteVariation'
+  | 'deleteRemainingMoves'
+  | 'deleteMovesBefore';
+
 export interface MoveTreeObserver {
   onMovesUpdate?(moves: PgnMove[]): void;
   onCurrentMoveChange?(moveIndex: number): void;
+  onCurrentNodeChange?(node: MoveNode): void;
   onMoveTreeChanged(): void;
 }
 
+// Plies played before the given position, from its side to move and move number
+export const getPlyOffset = (fen: string): number => {
+  const [, turn, , , , fullmove] = fen.split(' ');
+  const fullmoveNumber = parseInt(fullmove, 10) || 1;
+  return (fullmoveNumber - 1) * 2 + (turn === 'b' ? 1 : 0);
+};
+
+// Tree bookkeeping that is not part of the move itself
+const NODE_FIELDS = new Set(['id', 'parent', 'children', 'isMainline', 'ply']);
+
+const nodeToMove = (node: MoveNode): Omit<PgnMove, 'variations'> =>
+  Object.fromEntries(Object.entries(node).filter(([key]) => !NODE_FIELDS.has(key))) as Omit<PgnMove, 'variations'>;
+
 export class MoveTreeService {
   private static instance: MoveTreeService | null = null;
   private observers: MoveTreeObserver[] = [];
-  private moves: PgnMove[] = [];
-  private currentMoveIndex: number = -1;
+  private nodes: Map<string, MoveNode> = new Map();
+  private nextNodeId = 0;
+  private root: MoveNode;
+  private currentNode: MoveNode;
+  // Flat PGN view of the tree, rebuilt on first use after a change
+  private moves: PgnMove[] | null = null;
+  private gameComment: string | undefined;
+  private startFen: string = DEFAULT_POSITION;
 
   constructor() {
-    this.moves = [];
-    this.currentMoveIndex = -1;
+    this.root = this.createRoot(DEFAULT_POSITION);
+    this.currentNode = this.root;
     this.observers = [];
   }
 
@@ -27,80 +91,505 @@ export class MoveTreeService {
 
   public setMoves(moves: PgnMove[]): void {
     // Filter out invalid moves
-    this.moves = moves.filter(move => 
-      move && typeof move === 'object' && 
-      'san' in move && 
-      'fen' in move && 
+    const validMoves = moves.filter(move =>
+      move && typeof move === 'object' &&
+      'san' in move &&
+      'fen' in move &&
       'variations' in move
     );
-    this.currentMoveIndex = -1;
+    this.buildTree(validMoves, this.startFen);
     this.notifyObservers();
   }
 
   public reset(): void {
-    this.moves = [];
-    this.currentMoveIndex = -1;
+    this.gameComment = undefined;
+    this.startFen = DEFAULT_POSITION;
+    this.buildTree([], DEFAULT_POSITION);
     this.notifyObservers();
   }
 
   public loadGame(game: PgnGame): void {
-    this.moves = game.moves;
-    this.currentMoveIndex = -1;
+    this.gameComment = game.comment;
+    this.startFen = game.startFen ?? DEFAULT_POSITION;
+    this.buildTree(game.moves, this.startFen);
     this.notifyObservers();
   }
 
+  // The mainline with each move's variations nested, as read from PGN
   public getMoves(): PgnMove[] {
+    if (!this.moves) {
+      this.moves = this.lineToMoves(this.root.children[0]);
+    }
     return this.moves;
   }
 
+  public getGameComment(): string | undefined {
+    return this.gameComment;
+  }
+
+  public getStartFen(): string {
+    return this.startFen;
+  }
+
+  public getRoot(): MoveNode {
+    return this.root;
+  }
+
+  public getNode(id: string): MoveNode | null {
+    return this.nodes.get(id) ?? null;
+  }
+
+  public getCurrentNode(): MoveNode {
+    return this.currentNode;
+  }
+
+  // Moves played from the start position to the cursor, minus one, so on
+  // the mainline this is the index of the current move and -1 at the start
   public getCurrentMoveIndex(): number {
-    return this.currentMoveIndex;
+    return this.currentNode.ply - this.root.ply - 1;
+  }
+
+  // A move of the mainline by index, -1 being the start position
+  public getMainlineNode(moveIndex: number): MoveNode | null {
+    if (moveIndex < -1) return null;
+
+    let node: MoveNode | undefined = this.root;
+    for (let i = 0; i <= moveIndex && node; i++) {
+      node = node.children[0];
+    }
+    return node ?? null;
   }
 
   public goToMove(moveIndex: number): boolean {
-    if (moveIndex >= -1 && moveIndex < this.moves.length) {
-      this.currentMoveIndex = moveIndex;
-      this.notifyObservers();
-      return true;
+    const node = this.getMainlineNode(moveIndex);
+    return node ? this.moveCursor(node) : false;
+  }
+
+  public goToNode(id: string): boolean {
+    const node = this.nodes.get(id);
+    return node ? this.moveCursor(node) : false;
+  }
+
+  public goToStart(): boolean {
+    return this.moveCursor(this.root);
+  }
+
+  // Follows the current line to its last move
+  public goToLineEnd(): boolean {
+    let node = this.currentNode;
+    while (node.children.length > 0) {
+      node = node.children[0];
+    }
+    return this.moveCursor(node);
+  }
+
+  public nextInLine(): boolean {
+    const next = this.currentNode.children[0];
+    return next ? this.moveCursor(next) : false;
+  }
+
+  public previous(): boolean {
+    const parent = this.currentNode.parent;
+    return parent ? this.moveCursor(parent) : false;
+  }
+
+  // The move that follows in the order the notation is read: a move, then
+  // the variations written after it, then the rest of its line. Null at the
+  // end of the main line.
+  public getNextInNotation(node: MoveNode = this.currentNode): MoveNode | null {
+    const siblings = node.parent?.children ?? [];
+    if (siblings[0] === node && siblings.length > 1) return siblings[1];
+    if (node.children.length > 0) return node.children[0];
+
+    // At the end of a line, go on with the next variation from the same
+    // position or else return to the line the variation branched from
+    for (let end = node; ;) {
+      const start = this.getVariationStart(end);
+      if (!start?.parent) return null;
+
+      const alternatives = start.parent.children;
+      const next = alternatives[alternatives.indexOf(start) + 1];
+      if (next) return next;
+
+      end = alternatives[0];
+      if (end.children.length > 0) return end.children[0];
+    }
+  }
+
+  public nextInNotation(): boolean {
+    const next = this.getNextInNotation();
+    return next ? this.moveCursor(next) : false;
+  }
+
+  // Plays the first move of one of the variations to the next move,
+  // counted from 0 in the order they appear in the PGN
+  public enterVariation(index: number = 0): boolean {
+    const variation = this.currentNode.children[index + 1];
+    return variation ? this.moveCursor(variation) : false;
+  }
+
+  // Leaves the variation the cursor is in for the position it branches
+  // from, where the line it is an alternative to continues
+  public exitVariation(): boolean {
+    const start = this.getVariationStart(this.currentNode);
+    return start?.parent ? this.moveCursor(start.parent) : false;
+  }
+
+  // The next position further along the current line where the move to
+  // play has alternatives, or null when the line goes on without any
+  public getNextBranchPoint(node: MoveNode = this.currentNode): MoveNode | null {
+    for (let next = node.children[0]; next; next = next.children[0]) {
+      if (next.children.length > 1) return next;
+    }
+    return null;
+  }
+
+  public goToNextBranchPoint(): boolean {
+    const branchPoint = this.getNextBranchPoint();
+    return branchPoint ? this.moveCursor(branchPoint) : false;
+  }
+
+  // Every move of the line through the node: those played to reach it and
+  // the moves that continue its line after it
+  public getLine(node: MoveNode = this.currentNode): MoveNode[] {
+    const line = this.pathToNode(node.id);
+    for (let next = node.children[0]; next; next = next.children[0]) {
+      line.push(next);
+    }
+    return line;
+  }
+
+  // The nodes played from the start position to reach the given node,
+  // empty for the root and for unknown ids
+  public pathToNode(id: string): MoveNode[] {
+    const path: MoveNode[] = [];
+    for (let node = this.nodes.get(id); node?.parent; node = node.parent) {
+      path.unshift(node);
+    }
+    return path;
+  }
+
+  // Plays a move from the current position and moves the cursor to it. A
+  // move that is already there is reused, keeping its continuation even
+  // with overwrite. A new one starts a variation unless overwrite replaces
+  // whatever followed the current position.
+  public addMove(move: Omit<PgnMove, 'variations'>, options: AddMoveOptions = {}): MoveNode {
+    const existing = this.currentNode.children.find(child => child.san === move.san);
+    if (existing) {
+      this.moveCursor(existing);
+      return existing;
+    }
+
+    if (options.overwrite) {
+      this.currentNode.children.forEach(child => this.forgetNode(child));
+      this.currentNode.children = [];
+    }
+    const node = this.createNode(this.currentNode, move);
+    this.currentNode.children.push(node);
+    this.currentNode = node;
+    this.notifyObservers();
+    return node;
+  }
+
+  // Adds a line of moves as an alternative to the given move
+  public addVariation(id: string, moves: PgnMove[]): boolean {
+    const node = this.nodes.get(id);
+    if (!node?.parent || moves.length === 0) return false;
+
+    this.appendLine(node.parent, moves);
+    this.notifyObservers();
+    return true;
+  }
+
+  // Replaces the given comments, NAGs and shapes of a move
+  public annotateMove(id: string, annotations: MoveAnnotations): boolean {
+    const node = this.nodes.get(id);
+    if (!node?.parent) return false;
+
+    Object.assign(node, annotations);
+    this.notifyObservers();
+    return true;
+  }
+
+  public setGameComment(comment: string | undefined): void {
+    this.gameComment = comment;
+    this.notifyObservers();
+  }
+
+  public getSnapshot(): MoveTreeSnapshot {
+    const copyNode = (node: MoveNode): MoveNodeSnapshot => ({
+      ...nodeToMove(node),
+      id: node.id,
+      children: node.children.map(copyNode)
+    });
+    return {
+      root: copyNode(this.root),
+      startFen: this.startFen,
+      gameComment: this.gameComment,
+      currentNodeId: this.currentNode.id
+    };
+  }
+
+  public restoreSnapshot(snapshot: MoveTreeSnapshot): void {
+    const restoreNode = (copy: MoveNodeSnapshot, parent: MoveNode | null): MoveNode => {
+      const { children, ...move } = copy;
+      const node: MoveNode = {
+        ...move,
+        parent,
+        children: [],
+        isMainline: parent ? parent.isMainline && parent.children.length === 0 : true,
+        ply: parent ? parent.ply + 1 : getPlyOffset(snapshot.startFen)
+      };
+      this.nodes.set(node.id, node);
+      parent?.children.push(node);
+      children.forEach(child => restoreNode(child, node));
+      return node;
+    };
+
+    this.nodes.clear();
+    this.root = restoreNode(snapshot.root, null);
+    this.startFen = snapshot.startFen;
+    this.gameComment = snapshot.gameComment;
+    this.currentNode = this.nodes.get(snapshot.currentNodeId) ?? this.root;
+    this.notifyObservers();
+  }
+
+  public canApplyEdit(id: string, edit: MoveTreeEdit): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+
+    const start = this.getVariationStart(node);
+    const index = start?.parent ? start.parent.children.indexOf(start) : 0;
+    switch (edit) {
+      case 'promoteVariation':
+      case 'deleteVariation':
+        return !node.isMainline;
+      case 'moveVariationUp':
+        return index > 1;
+      case 'moveVariationDown':
+        return !!start?.parent && index < start.parent.children.length - 1;
+      case 'deleteRemainingMoves':
+        return node.children.length > 0;
+      case 'deleteMovesBefore':
+        return !!node.parent;
+    }
+  }
+
+  public applyEdit(id: string, edit: MoveTreeEdit): boolean {
+    if (!this.canApplyEdit(id, edit)) return false;
+
+    const node = this.nodes.get(id)!;
+    switch (edit) {
+      case 'promoteVariation':
+        this.promoteVariation(node);
+        break;
+      case 'moveVariationUp':
+        this.moveVariation(node, -1);
+        break;
+      case 'moveVariationDown':
+        this.moveVariation(node, 1);
+        break;
+      case 'deleteVariation':
+        this.deleteVariation(node);
+        break;
+      case 'deleteRemainingMoves':
+        this.deleteRemainingMoves(node);
+        break;
+      case 'deleteMovesBefore':
+        this.deleteMovesBefore(node);
+        break;
+    }
+    this.updateLineFlags(this.root, true);
+    this.notifyObservers();
+    return true;
+  }
+
+  // Makes every variation on the way to the node the main continuation
+  // at its branch point, so the node ends up on the mainline
+  private promoteVariation(node: MoveNode): void {
+    for (let start = this.getVariationStart(node); start?.parent; start = this.getVariationStart(start.parent)) {
+      const siblings = start.parent.children;
+      siblings.splice(siblings.indexOf(start), 1);
+      siblings.unshift(start);
+    }
+  }
+
+  // Swaps the variation containing the node with the one before or after it
+  private moveVariation(node: MoveNode, offset: number): void {
+    const start = this.getVariationStart(node)!;
+    const siblings = start.parent!.children;
+    const index = siblings.indexOf(start);
+    [siblings[index], siblings[index + offset]] = [siblings[index + offset], siblings[index]];
+  }
+
+  private deleteVariation(node: MoveNode): void {
+    this.removeSubtree(this.getVariationStart(node)!);
+  }
+
+  private deleteRemainingMoves(node: MoveNode): void {
+    [...node.children].forEach(child => this.removeSubtree(child));
+  }
+
+  // Makes the position after the node the start of the game. Only the moves
+  // that follow it are kept.
+  private deleteMovesBefore(node: MoveNode): void {
+    const keepsCursor = this.isInSubtree(this.currentNode, node);
+    const root = this.createRoot(node.fen);
+    root.children = node.children;
+    root.children.forEach(child => {
+      child.parent = root;
+    });
+
+    this.nodes.clear();
+    this.indexSubtree(root);
+    this.root = root;
+    this.startFen = node.fen;
+    if (!keepsCursor || this.currentNode === node) {
+      this.currentNode = root;
+    }
+  }
+
+  // Detaches the node and everything after it, moving the cursor out of it
+  private removeSubtree(node: MoveNode): void {
+    const parent = node.parent!;
+    if (this.isInSubtree(this.currentNode, node)) {
+      this.currentNode = parent;
+    }
+    parent.children = parent.children.filter(child => child !== node);
+    this.forgetNode(node);
+  }
+
+  private isInSubtree(node: MoveNode, subtreeRoot: MoveNode): boolean {
+    for (let current: MoveNode | null = node; current; current = current.parent) {
+      if (current === subtreeRoot) return true;
     }
     return false;
   }
 
+  private indexSubtree(node: MoveNode): void {
+    this.nodes.set(node.id, node);
+    node.children.forEach(child => this.indexSubtree(child));
+  }
+
+  private updateLineFlags(node: MoveNode, isMainline: boolean): void {
+    node.isMainline = isMainline;
+    node.children.forEach((child, index) => this.updateLineFlags(child, isMainline && index === 0));
+  }
+
   public addObserver(observer: MoveTreeObserver): void {
     this.observers.push(observer);
     // Notify new observer of current state
+    this.notifyObserver(observer);
+  }
+
+  public removeObserver(observer: MoveTreeObserver): void {
+    this.observers = this.observers.filter(obs => obs !== observer);
+  }
+
+  private notifyObserver(observer: MoveTreeObserver): void {
     if (observer.onMovesUpdate) {
-      observer.onMovesUpdate(this.moves);
+      observer.onMovesUpdate(this.getMoves());
     }
     if (observer.onCurrentMoveChange) {
-      observer.onCurrentMoveChange(this.currentMoveIndex);
+      observer.onCurrentMoveChange(this.getCurrentMoveIndex());
+    }
+    if (observer.onCurrentNodeChange) {
+      observer.onCurrentNodeChange(this.currentNode);
     }
     if (observer.onMoveTreeChanged) {
       observer.onMoveTreeChanged();
     }
   }
 
-  public removeObserver(observer: MoveTreeObserver): void {
-    this.observers = this.observers.filter(obs => obs !== observer);
+  private notifyObservers(): void {
+    this.moves = null;
+    this.observers.forEach(observer => this.notifyObserver(observer));
   }
 
-  private notifyObservers(): void {
-    this.observers.forEach(observer => {
-      if (observer.onMovesUpdate) {
-        observer.onMovesUpdate(this.moves);
-      }
-      if (observer.onCurrentMoveChange) {
-        observer.onCurrentMoveChange(this.currentMoveIndex);
-      }
-      if (observer.onMoveTreeChanged) {
-        observer.onMoveTreeChanged();
-      }
+  private moveCursor(node: MoveNode): boolean {
+    this.currentNode = node;
+    this.notifyObservers();
+    return true;
+  }
+
+  // The first move of the variation containing the node, or null on the mainline
+  private getVariationStart(node: MoveNode): MoveNode | null {
+    let start = node;
+    while (start.parent && start.parent.children[0] === start) {
+      start = start.parent;
+    }
+    return start.parent ? start : null;
+  }
+
+  private buildTree(moves: PgnMove[], startFen: string): void {
+    this.nodes.clear();
+    this.root = this.createRoot(startFen);
+    this.appendLine(this.root, moves);
+    this.currentNode = this.root;
+  }
+
+  private createRoot(fen: string): MoveNode {
+    const root: MoveNode = {
+      id: `node-${++this.nextNodeId}`,
+      parent: null,
+      children: [],
+      isMainline: true,
+      ply: getPlyOffset(fen),
+      san: '',
+      fen
+    };
+    this.nodes.set(root.id, root);
+    return root;
+  }
+
+  private createNode(parent: MoveNode, move: Omit<PgnMove, 'variations'>): MoveNode {
+    const node: MoveNode = {
+      ...move,
+      id: `node-${++this.nextNodeId}`,
+      parent,
+      children: [],
+      isMainline: parent.isMainline && parent.children.length === 0,
+      ply: parent.ply + 1
+    };
+    this.nodes.set(node.id, node);
+    return node;
+  }
+
+  // Adds the moves as a line below the parent. A move's variations are
+  // alternatives to it, so they branch from the same parent.
+  private appendLine(parent: MoveNode, moves: PgnMove[]): void {
+    let previous = parent;
+    moves.forEach(({ variations, ...move }) => {
+      const node = this.createNode(previous, move);
+      previous.children.push(node);
+      variations.forEach(variation => this.appendLine(previous, variation));
+      previous = node;
     });
   }
 
+  private forgetNode(node: MoveNode): void {
+    this.nodes.delete(node.id);
+    node.children.forEach(child => this.forgetNode(child));
+  }
+
+  // The line starting at the node in PGN form. Variations are listed on the
+  // first child of a branch point, the move they are alternatives to.
+  private lineToMoves(first: MoveNode | undefined): PgnMove[] {
+    const moves: PgnMove[] = [];
+    for (let node = first; node; node = node.children[0]) {
+      const siblings = node.parent?.children ?? [];
+      moves.push({
+        ...nodeToMove(node),
+        variations: siblings[0] === node ? siblings.slice(1).map(variation => this.lineToMoves(variation)) : []
+      });
+    }
+    return moves;
+  }
+
   public cleanup(): void {
-    this.moves = [];
-    this.currentMoveIndex = -1;
+    this.gameComment = undefined;
+    this.startFen = DEFAULT_POSITION;
+    this.buildTree([], DEFAULT_POSITION);
     this.observers = [];
   }
-} 
\ No newline at end of file
+}
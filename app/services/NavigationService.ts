@@ -1,38 +1,94 @@
 'use client';
 
 import { GameManager } from './GameManager';
+import { type MoveNode, type MoveTreeEdit } from './MoveTreeService';
+import { getTimeSpent, parseTimeControl } from './GameClock';
+import { COMMANDS, ShortcutService, isSameCombo, type KeyCombo } from './ShortcutService';
+import { type Command } from './CommandRegistry';
 
-export type NavigationCommand = 'first' | 'prev' | 'next' | 'last' | 'flip';
+export type NavigationCommand =
+  | 'first'
+  | 'prev'
+  | 'next'
+  | 'last'
+  | 'flip'
+  | 'undo'
+  | 'redo'
+  | 'play'
+  | 'pause'
+  | 'togglePlay'
+  | 'enterVariation'
+  | 'exitVariation'
+  | 'chooseVariation'
+  | 'nextBranchPoint'
+  | 'comment'
+  | 'toggleEngine'
+  | 'openFile'
+  | 'pastePgn'
+  | 'pasteFen'
+  | 'newBoard'
+  | 'nextGame'
+  | 'prevGame'
+  | 'commandPalette'
+  | MoveTreeEdit;
+
+export interface AutoplaySettings {
+  // Milliseconds between moves
+  interval: number;
+  // 'clock' waits for the time spent on each move as recorded by [%clk] or
+  // [%emt], sped up by clockSpeed, and uses the interval where it is unknown
+  pace: 'interval' | 'clock';
+  clockSpeed: number;
+  // Play variations where they are written instead of only the current line
+  followVariations: boolean;
+}
+
+export const DEFAULT_AUTOPLAY_SETTINGS: AutoplaySettings = {
+  interval: 1500,
+  pace: 'interval',
+  clockSpeed: 10,
+  followVariations: false
+};
+
+// Bounds for clock-paced autoplay, so instant moves can be seen and long thinks are not waited out
+const MIN_AUTOPLAY_DELAY = 300;
+const MAX_AUTOPLAY_DELAY = 10000;
+
+// The moves that can be played from a branch point, offered in a popup
+// before one of them is played. The first is the line being followed.
+export interface VariationChoice {
+  node: MoveNode;
+  selectedIndex: number;
+}
 
 export interface NavigationObserver {
   onNavigationCommand(command: NavigationCommand): void;
+  onVariationChoiceChange?(choice: VariationChoice | null): void;
 }
 
-export interface KeyboardShortcut {
-  key: string;
+export interface KeyboardShortcut extends KeyCombo {
   command: NavigationCommand;
-  ctrlKey?: boolean;
-  shiftKey?: boolean;
-  altKey?: boolean;
 }
 
 export class NavigationService {
   private static instance: NavigationService;
   private observers: Set<NavigationObserver>;
-  private shortcuts: KeyboardShortcut[];
-  private gameManager: GameManager;
+  // Shortcuts added for this board only, checked before the shared key map
+  private shortcuts: KeyboardShortcut[] = [];
+  private shortcutService: ShortcutService;
+  private gameManager: GameManager | null;
   private enabled: boolean = true;
+  private autoplaySettings: AutoplaySettings = { ...DEFAULT_AUTOPLAY_SETTINGS };
+  private autoplayTimer: ReturnType<typeof setTimeout> | null = null;
+  private variationChoice: VariationChoice | null = null;
 
-  constructor() {
+  // With a game, navigation commands move the cursor of its move tree and
+  // edit commands change it before observers are told about them. Keys are
+  // looked up in the shared, user-configurable key map.
+  constructor(gameManager: GameManager | null = null, shortcutService: ShortcutService = ShortcutService.getInstance()) {
     this.observers = new Set();
-    this.gameManager = new GameManager();
-    this.shortcuts = [
-      { key: 'ArrowLeft', command: 'prev' },
-      { key: 'ArrowRight', command: 'next' },
-      { key: 'Home', command: 'first' },
-      { key: 'End', command: 'last' },
-      { key: 'f', command: 'flip' }
-    ];
+    this.gameManager = gameManager;
+    this.shortcutService = shortcutService;
 
     if (typeof window !== 'undefined') {
       window.addEventListener('keydown', this.handleKeyDown);
@@ -47,21 +103,285 @@ export class NavigationService {
   }
 
   private handleKeyDown = (e: KeyboardEvent) => {
-    if (!this.enabled) return;
+    // Keys typed into a text field, such as arrows and Delete in a comment, belong to it
+    if (!this.enabled || this.isEditingText(e.target)) return;
+
+    if (this.handleVariationChoiceKey(e)) {
+      e.preventDefault();
+      return;
+    }
     
-    const shortcut = this.shortcuts.find(s => 
-      s.key === e.key &&
-      (!s.ctrlKey || e.ctrlKey) &&
-      (!s.shiftKey || e.shiftKey) &&
-      (!s.altKey || e.altKey)
-    );
-
-    if (shortcut) {
+    // Modifiers must match exactly, so Delete and Ctrl+Delete are different shortcuts
+    const pressed: KeyCombo = { key: e.key, ctrlKey: e.ctrlKey, shiftKey: e.shiftKey, altKey: e.altKey, metaKey: e.metaKey };
+    const command = this.shortcuts.find(shortcut => isSameCombo(shortcut, pressed))?.command ??
+      this.shortcutService.getCommandForEvent(e);
+
+    if (command) {
       e.preventDefault();
-      this.observers.forEach(observer => observer.onNavigationCommand(shortcut.command));
+      this.execute(command);
     }
   };
 
+  // While the variation popup is open, Up and Down pick a move, Enter plays
+  // it and Escape closes the popup. Other keys run their commands as usual.
+  private handleVariationChoiceKey(e: KeyboardEvent): boolean {
+    if (!this.getVariationChoice() || e.ctrlKey || e.altKey || e.shiftKey || e.metaKey) return false;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        this.moveVariationSelection(-1);
+        return true;
+      case 'ArrowDown':
+        this.moveVariationSelection(1);
+        return true;
+      case 'Enter':
+        this.playVariationChoice();
+        return true;
+      case 'Escape':
+        this.closeVariationChoice();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private isEditingText(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+  }
+
+  // Edit commands apply to the move at the cursor. Commands for the view,
+  // such as flip or paste, are left to observers. Next stops at a branch
+  // point to offer its variations, and confirms the move picked there.
+  public execute(command: NavigationCommand) {
+    if (this.gameManager) {
+      const moveTree = this.gameManager.getMoveTree();
+      const choosing = this.getVariationChoice() !== null;
+      if (command !== 'next' && command !== 'chooseVariation') {
+        this.closeVariationChoice();
+      }
+
+      switch (command) {
+        case 'first':
+          moveTree.goToStart();
+          break;
+        case 'prev':
+          // Backs out of the popup without moving
+          if (!choosing) moveTree.previous();
+          break;
+        case 'next':
+          if (choosing) {
+            this.playVariationChoice();
+          } else if (!this.openVariationChoice(0)) {
+            moveTree.nextInLine();
+          }
+          break;
+        case 'chooseVariation':
+          if (choosing) {
+            this.moveVariationSelection(1);
+          } else {
+            this.openVariationChoice(1);
+          }
+          break;
+        case 'nextBranchPoint':
+          moveTree.goToNextBranchPoint();
+          break;
+        case 'last':
+          moveTree.goToLineEnd();
+          break;
+        case 'enterVariation':
+          moveTree.enterVariation();
+          break;
+        case 'exitVariation':
+          moveTree.exitVariation();
+          break;
+        case 'flip':
+        case 'comment':
+        case 'toggleEngine':
+        case 'openFile':
+        case 'pastePgn':
+        case 'pasteFen':
+        case 'newBoard':
+        case 'nextGame':
+        case 'prevGame':
+        case 'commandPalette':
+          break;
+        case 'undo':
+          this.gameManager.undo();
+          break;
+        case 'redo':
+          this.gameManager.redo();
+          break;
+        case 'play':
+          this.startAutoplay();
+          break;
+        case 'pause':
+          this.stopAutoplay();
+          break;
+        case 'togglePlay':
+          if (this.isPlaying()) {
+            this.stopAutoplay();
+          } else {
+            this.startAutoplay();
+          }
+          break;
+        default:
+          this.gameManager.applyEdit(moveTree.getCurrentNode().id, command);
+      }
+    }
+    this.observers.forEach(observer => observer.onNavigationCommand(command));
+  }
+
+  // The open variation popup, if the cursor is still where it was opened
+  public getVariationChoice(): VariationChoice | null {
+    const choice = this.variationChoice;
+    return choice && choice.node === this.gameManager?.getMoveTree().getCurrentNode() ? choice : null;
+  }
+
+  // Plays one of the offered moves, the selected one by default
+  public playVariationChoice(index?: number) {
+    const choice = this.getVariationChoice();
+    if (!choice) return;
+
+    const move = choice.node.children[index ?? choice.selectedIndex];
+    this.closeVariationChoice();
+    if (move) this.gameManager?.getMoveTree().goToNode(move.id);
+  }
+
+  public closeVariationChoice() {
+    if (!this.variationChoice) return;
+    this.variationChoice = null;
+    this.notifyVariationChoice();
+  }
+
+  // Only opens where the next move has alternatives
+  private openVariationChoice(selectedIndex: number): boolean {
+    const node = this.gameManager?.getMoveTree().getCurrentNode();
+    if (!node || node.children.length < 2) return false;
+
+    this.variationChoice = { node, selectedIndex };
+    this.notifyVariationChoice();
+    return true;
+  }
+
+  private moveVariationSelection(offset: number) {
+    const choice = this.getVariationChoice();
+    if (!choice) return;
+
+    const selectedIndex = Math.min(choice.node.children.length - 1, Math.max(0, choice.selectedIndex + offset));
+    this.variationChoice = { ...choice, selectedIndex };
+    this.notifyVariationChoice();
+  }
+
+  private notifyVariationChoice() {
+    this.observers.forEach(observer => observer.onVariationChoiceChange?.(this.variationChoice));
+  }
+
+  public isPlaying(): boolean {
+    return this.autoplayTimer !== null;
+  }
+
+  public getAutoplaySettings(): AutoplaySettings {
+    return this.autoplaySettings;
+  }
+
+  // Takes effect from the next move played
+  public setAutoplaySettings(settings: Partial<AutoplaySettings>) {
+    this.autoplaySettings = { ...this.autoplaySettings, ...settings };
+  }
+
+  // Starting at the end of the line plays the game again from the start
+  private startAutoplay() {
+    if (!this.gameManager || this.isPlaying()) return;
+
+    if (!this.getNextAutoplayMove()) {
+      this.gameManager.getMoveTree().goToStart();
+    }
+    this.scheduleAutoplayStep();
+  }
+
+  private stopAutoplay() {
+    if (this.autoplayTimer !== null) {
+      clearTimeout(this.autoplayTimer);
+      this.autoplayTimer = null;
+    }
+  }
+
+  // The next move is worked out again when it is due, so navigating
+  // during autoplay carries on from wherever the cursor was moved to
+  private scheduleAutoplayStep() {
+    const next = this.getNextAutoplayMove();
+    if (!next) {
+      this.execute('pause');
+      return;
+    }
+
+    this.autoplayTimer = setTimeout(() => {
+      if (this.playNextMove()) {
+        this.scheduleAutoplayStep();
+      } else {
+        this.execute('pause');
+      }
+    }, this.getAutoplayDelay(next));
+  }
+
+  private playNextMove(): boolean {
+    const moveTree = this.gameManager?.getMoveTree();
+    if (!moveTree) return false;
+    return this.autoplaySettings.followVariations ? moveTree.nextInNotation() : moveTree.nextInLine();
+  }
+
+  private getNextAutoplayMove(): MoveNode | null {
+    const moveTree = this.gameManager?.getMoveTree();
+    if (!moveTree) return null;
+    return this.autoplaySettings.followVariations
+      ? moveTree.getNextInNotation()
+      : moveTree.getCurrentNode().children[0] ?? null;
+  }
+
+  private getAutoplayDelay(move: MoveNode): number {
+    const { interval, pace, clockSpeed } = this.autoplaySettings;
+    if (pace !== 'clock' || !this.gameManager) return interval;
+
+    const timeControl = parseTimeControl(this.gameManager.getHeaders().TimeControl);
+    const timeSpent = getTimeSpent(move, timeControl);
+    if (timeSpent === undefined) return interval;
+
+    const delay = (timeSpent * 1000) / clockSpeed;
+    return Math.min(MAX_AUTOPLAY_DELAY, Math.max(MIN_AUTOPLAY_DELAY, delay));
+  }
+
+  // This board's commands for the command palette. Typing also offers a
+  // jump to each move of the game, written like "23...Nf6".
+  public getCommands(query: string = ''): Command[] {
+    const commands: Command[] = COMMANDS
+      .filter(({ command }) => command !== 'commandPalette')
+      .map(({ command, label, category }) => ({
+        id: command,
+        label,
+        category,
+        shortcut: this.shortcutService.getShortcutLabel(command),
+        run: () => this.execute(command)
+      }));
+
+    const moveTree = this.gameManager?.getMoveTree();
+    if (!moveTree || !query.trim()) return commands;
+
+    const addMoves = (node: MoveNode) => node.children.forEach(child => {
+      const moveNumber = Math.ceil(child.ply / 2);
+      commands.push({
+        id: `goToMove:${child.id}`,
+        label: `Go to ${moveNumber}${child.ply % 2 === 1 ? '.' : '...'}${child.san}`,
+        category: 'Move',
+        keywords: child.isMainline ? undefined : 'variation',
+        run: () => moveTree.goToNode(child.id)
+      });
+      addMoves(child);
+    });
+    addMoves(moveTree.getRoot());
+    return commands;
+  }
+
   public addObserver(observer: NavigationObserver) {
     this.observers.add(observer);
   }
@@ -83,6 +403,7 @@ export class NavigationService {
   }
 
   public cleanup() {
+    this.stopAutoplay();
     if (typeof window !== 'undefined') {
       window.removeEventListener('keydown', this.handleKeyDown);
     }
@@ -0,0 +1,114 @@
+import { type BoardShape, type MoveEvaluation, type PgnMove, type ShapeColor } from './PgnService';
+
+// Move data that PGN stores as [%command value] inside the comment after a move
+export type CommentAnnotations = Partial<Pick<PgnMove, 'shapes' | 'clock' | 'elapsedTime' | 'evaluation'>>;
+
+const COMMAND_REGEX = /\[%(\w+)\s+([^\]]*)\]/g;
+
+const ARROW_REGEX = /^([GRYB])([a-h][1-8])([a-h][1-8])$/;
+const SQUARE_REGEX = /^([GRYB])([a-h][1-8])$/;
+
+// Reads "Ge2e4,Rd1d8" or "Rd4,Gf5", skipping entries that are not understood
+function parseShapes(value: string, regex: RegExp): BoardShape[] {
+  return value.split(',').flatMap(entry => {
+    const match = entry.trim().match(regex);
+    if (!match) return [];
+    const [, color, from, to] = match;
+    return [to
+      ? { color: color as ShapeColor, from: from as BoardShape['from'], to: to as BoardShape['to'] }
+      : { color: color as ShapeColor, from: from as BoardShape['from'] }];
+  });
+}
+
+// Reads "1:05:03", "0:02:59.9" or "45" as seconds
+export function parseClockTime(value: string): number | undefined {
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value.trim())) return undefined;
+  return value.trim().split(':').reduce((seconds, part) => seconds * 60 + parseFloat(part), 0);
+}
+
+// Writes seconds as H:MM:SS, keeping tenths when the clock has them
+export function formatClockTime(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const hours = Math.floor(tenths / 36000);
+  const minutes = Math.floor(tenths / 600) % 60;
+  const wholeSeconds = Math.floor(tenths / 10) % 60;
+  const fraction = tenths % 10 ? `.${tenths % 10}` : '';
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(wholeSeconds).padStart(2, '0')}${fraction}`;
+}
+
+// Reads "0.34", "-1.2,20" or "#-3" with an optional search depth after the comma
+function parseEvaluation(value: string): MoveEvaluation | undefined {
+  const match = value.trim().match(/^(#)?([+-]?\d+(?:\.\d+)?)(?:,(\d+))?$/);
+  if (!match) return undefined;
+
+  const [, isMate, number, depth] = match;
+  const evaluation: MoveEvaluation = isMate
+    ? { mate: parseInt(number, 10) }
+    : { score: parseFloat(number) };
+  if (depth) evaluation.depth = parseInt(depth, 10);
+  return evaluation;
+}
+
+function formatEvaluation({ score, mate, depth }: MoveEvaluation): string {
+  const value = mate !== undefined ? `#${mate}` : `${Number((score ?? 0).toFixed(2))}`;
+  return depth !== undefined ? `${value},${depth}` : value;
+}
+
+// Takes the commands this viewer understands out of a comment. Other
+// commands stay in the text so they are written back unchanged.
+export function readCommentCommands(comment: string): { text: string; annotations: CommentAnnotations } {
+  const annotations: CommentAnnotations = {};
+  const addShapes = (shapes: BoardShape[]) => {
+    annotations.shapes = [...(annotations.shapes ?? []), ...shapes];
+  };
+
+  const text = comment.replace(COMMAND_REGEX, (command, name: string, value: string) => {
+    switch (name) {
+      case 'cal':
+        addShapes(parseShapes(value, ARROW_REGEX));
+        return '';
+      case 'csl':
+        addShapes(parseShapes(value, SQUARE_REGEX));
+        return '';
+      case 'clk':
+      case 'emt': {
+        const seconds = parseClockTime(value);
+        if (seconds === undefined) return command;
+        annotations[name === 'clk' ? 'clock' : 'elapsedTime'] = seconds;
+        return '';
+      }
+      case 'eval': {
+        const evaluation = parseEvaluation(value);
+        if (!evaluation) return command;
+        annotations.evaluation = evaluation;
+        return '';
+      }
+      default:
+        return command;
+    }
+  });
+
+  return { text: text.replace(/\s+/g, ' ').trim(), annotations };
+}
+
+export function writeCommentCommands(annotations: CommentAnnotations): string {
+  const shapes = annotations.shapes ?? [];
+  const squares = shapes.filter(shape => !shape.to).map(shape => `${shape.color}${shape.from}`);
+  const arrows = shapes.filter(shape => shape.to).map(shape => `${shape.color}${shape.from}${shape.to}`);
+
+  const commands: string[] = [];
+  if (annotations.evaluation) commands.push(`[%eval ${formatEvaluation(annotations.evaluation)}]`);
+  if (annotations.clock !== undefined) commands.push(`[%clk ${formatClockTime(annotations.clock)}]`);
+  if (annotations.elapsedTime !== undefined) commands.push(`[%emt ${formatClockTime(annotations.elapsedTime)}]`);
+  if (squares.length > 0) commands.push(`[%csl ${squares.join(',')}]`);
+  if (arrows.length > 0) commands.push(`[%cal ${arrows.join(',')}]`);
+  return commands.join('');
+}
+
+// Adds the shape, changes its colour if it is drawn in another one, or
+// removes it when drawn again in the same colour
+export function toggleShape(shapes: BoardShape[], shape: BoardShape): BoardShape[] {
+  const existing = shapes.find(({ from, to }) => from === shape.from && to === shape.to);
+  const others = shapes.filter(other => other !== existing);
+  return existing?.color === shape.color ? others : [...others, shape];
+}
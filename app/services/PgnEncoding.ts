@@ -0,0 +1,69 @@
+// Character encodings found in PGN files. Decoded text is plain Unicode,
+// whatever the file was written in.
+export type PgnEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'windows-1250';
+
+export const PGN_ENCODINGS: Array<{ value: PgnEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Western (Latin-1 / Windows-1252)' },
+  { value: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+export interface EncodingDetection {
+  encoding: PgnEncoding;
+  // How the encoding was chosen
+  reason: 'bom' | 'utf-8' | 'legacy';
+}
+
+// Bytes inspected when detecting the encoding of a file
+export const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
+const BYTE_ORDER_MARKS: Array<{ bytes: number[]; encoding: PgnEncoding }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' }
+];
+
+const LEGACY_ENCODINGS: PgnEncoding[] = ['windows-1252', 'windows-1250'];
+
+function isValidUtf8(sample: Uint8Array): boolean {
+  try {
+    // stream: true so a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Counts the non-ASCII characters of the decoded sample that are letters.
+// Text decoded with the wrong code page shows symbols such as "³" or "¹"
+// where the right one has letters such as "ł" or "ą".
+function legacyScore(sample: Uint8Array, encoding: PgnEncoding): number {
+  const text = new TextDecoder(encoding).decode(sample);
+  return (text.match(/[^\x00-\x7f]/g) ?? []).filter(char => /\p{L}/u.test(char)).length;
+}
+
+// Detects the encoding from the first bytes of a file: a byte order mark
+// wins, then UTF-8 if the bytes are valid UTF-8, and otherwise the legacy
+// code page under which the text reads best, Windows-1252 on a tie.
+export function detectEncoding(sample: Uint8Array): EncodingDetection {
+  const bom = BYTE_ORDER_MARKS.find(({ bytes }) => bytes.every((byte, i) => sample[i] === byte));
+  if (bom) {
+    return { encoding: bom.encoding, reason: 'bom' };
+  }
+
+  if (isValidUtf8(sample)) {
+    return { encoding: 'utf-8', reason: 'utf-8' };
+  }
+
+  const [best] = LEGACY_ENCODINGS
+    .map(encoding => ({ encoding, score: legacyScore(sample, encoding) }))
+    .sort((a, b) => b.score - a.score);
+  return { encoding: best.encoding, reason: 'legacy' };
+}
+
+export function getEncodingLabel(encoding: PgnEncoding): string {
+  return PGN_ENCODINGS.find(({ value }) => value === encoding)?.label ?? encoding;
+}
@@ -0,0 +1,109 @@
+// Opens a tag pair, as opposed to movetext that happens to start with "[",
+// such as a [%clk] command in a comment that wrapped onto a new line
+const TAG_LINE_REGEX = /^\[\s*\w+\s+"/;
+
+export function isTagPairLine(line: string): boolean {
+  return TAG_LINE_REGEX.test(line.trim());
+}
+
+export interface PgnGameText {
+  text: string;
+  // Line the game starts on and its position in the file, both counted from 1
+  line: number;
+  number: number;
+}
+
+// Splits PGN text into games as it arrives, so large files can be
+// processed chunk by chunk. A header line that follows a non-header line
+// starts a new game. Lines inside a {comment} are never header lines,
+// whatever they start with.
+export class PgnGameSplitter {
+  private pendingLine = '';
+  private currentGame = '';
+  private inGame = false;
+  private previousLineIsHeader = false;
+  private inComment = false;
+  private lineNumber = 0;
+  private gameLine = 0;
+  private gameCount = 0;
+
+  // Returns the games completed by this chunk. The last game stays
+  // buffered until the next header or flush().
+  public push(chunk: string): PgnGameText[] {
+    const lines = (this.pendingLine + chunk).split('\n');
+    this.pendingLine = lines.pop() ?? '';
+
+    const games: PgnGameText[] = [];
+    lines.forEach(line => this.addLine(line, games));
+    return games;
+  }
+
+  public flush(): PgnGameText[] {
+    const games: PgnGameText[] = [];
+    if (this.pendingLine) {
+      this.addLine(this.pendingLine, games);
+    }
+    this.completeGame(games);
+
+    this.pendingLine = '';
+    this.inGame = false;
+    this.previousLineIsHeader = false;
+    this.inComment = false;
+    this.lineNumber = 0;
+    this.gameCount = 0;
+    return games;
+  }
+
+  private addLine(rawLine: string, games: PgnGameText[]) {
+    const line = rawLine.replace(/\r$/, '');
+    const trimmedLine = line.trim();
+    const isHeader = !this.inComment && isTagPairLine(trimmedLine);
+    this.lineNumber++;
+    if (!isHeader) {
+      this.inComment = this.endsInComment(trimmedLine);
+    }
+
+    if (isHeader) {
+      if (this.inGame && !this.previousLineIsHeader) {
+        this.completeGame(games);
+      }
+      this.inGame = true;
+    }
+
+    if (trimmedLine || this.inGame) {
+      if (!this.currentGame.trim()) {
+        this.gameLine = this.lineNumber;
+        this.currentGame = '';
+      }
+      this.currentGame += line + '\n';
+    }
+    this.previousLineIsHeader = isHeader;
+  }
+
+  // Whether a {comment} is still open at the end of the line. Braces do
+  // not nest, and a ";" comment outside braces runs to the end of the line.
+  private endsInComment(line: string): boolean {
+    let inComment = this.inComment;
+    for (const char of line) {
+      if (inComment) {
+        inComment = char !== '}';
+      } else if (char === '{') {
+        inComment = true;
+      } else if (char === ';') {
+        break;
+      }
+    }
+    return inComment;
+  }
+
+  private completeGame(games: PgnGameText[]) {
+    const text = this.currentGame.trim();
+    this.currentGame = '';
+
+    // Games must have moves, unless they set up a position to start from,
+    // as puzzles and studies do
+    if (/\d+\./.test(text) || /^\[\s*FEN\s+"/m.test(text)) {
+      games.push({ text, line: this.gameLine, number: ++this.gameCount });
+    }
+  }
+}
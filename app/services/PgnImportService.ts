@@ -0,0 +1,188 @@
+import { PgnService, type PgnDiagnostic, type PgnGame, type PgnLoadResult, type PgnParseOptions } from './PgnService';
+import { type PgnParseMode } from './PgnParser';
+import { PgnGameSplitter, type PgnGameText } from './PgnGameSplitter';
+import { detectEncoding, ENCODING_SAMPLE_SIZE, type PgnEncoding } from './PgnEncoding';
+
+export interface PgnImportProgress {
+  bytesRead: number;
+  totalBytes: number;
+  gamesParsed: number;
+  errors: number;
+}
+
+export interface PgnImportOptions extends PgnParseOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PgnImportProgress) => void;
+  // Detected from the start of the file when not given
+  encoding?: PgnEncoding;
+}
+
+export interface PgnImportResult extends PgnLoadResult {
+  cancelled: boolean;
+  encoding: PgnEncoding;
+}
+
+// Messages exchanged with the import worker
+export interface PgnParseRequest {
+  id: number;
+  gameTexts: PgnGameText[];
+  mode: PgnParseMode;
+}
+
+export interface PgnParseResponse {
+  id: number;
+  games: PgnGame[];
+  diagnostics: PgnDiagnostic[];
+}
+
+// Parses batches of game texts, in a worker or on the main thread
+export interface PgnBatchParser {
+  parse(gameTexts: PgnGameText[], mode: PgnParseMode): Promise<Omit<PgnParseResponse, 'id'>>;
+  terminate(): void;
+}
+
+export const IMPORT_CHUNK_SIZE = 1024 * 1024;
+export const IMPORT_BATCH_SIZE = 500;
+
+class WorkerBatchParser implements PgnBatchParser {
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (response: PgnParseResponse) => void; reject: (error: Error) => void }>();
+
+  constructor(private worker: Worker) {
+    this.worker.onmessage = (event: MessageEvent<PgnParseResponse>) => {
+      this.pending.get(event.data.id)?.resolve(event.data);
+      this.pending.delete(event.data.id);
+    };
+    this.worker.onerror = (event) => {
+      const error = new Error(event.message || 'PGN import worker failed');
+      this.pending.forEach(({ reject }) => reject(error));
+      this.pending.clear();
+    };
+  }
+
+  public parse(gameTexts: PgnGameText[], mode: PgnParseMode): Promise<PgnParseResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, gameTexts, mode } satisfies PgnParseRequest);
+    });
+  }
+
+  public terminate() {
+    this.worker.terminate();
+    this.pending.clear();
+  }
+}
+
+// Used where workers are unavailable. Yields between batches so the page
+// stays responsive.
+class InlineBatchParser implements PgnBatchParser {
+  public async parse(gameTexts: PgnGameText[], mode: PgnParseMode) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return PgnService.getInstance().parseGames(gameTexts, mode);
+  }
+
+  public terminate() {}
+}
+
+export function createBatchParser(): PgnBatchParser {
+  if (typeof Worker === 'undefined') {
+    return new InlineBatchParser();
+  }
+  return new WorkerBatchParser(new Worker(new URL('../workers/pgnImport.worker.ts', import.meta.url)));
+}
+
+// Imports large PGN files without freezing the page: the file is read in
+// chunks, split into games as it arrives and parsed in batches off the main
+// thread.
+export class PgnImportService {
+  private chunkSize: number;
+  private batchSize: number;
+  private createParser: () => PgnBatchParser;
+
+  constructor({
+    chunkSize = IMPORT_CHUNK_SIZE,
+    batchSize = IMPORT_BATCH_SIZE,
+    createParser = createBatchParser
+  }: { chunkSize?: number; batchSize?: number; createParser?: () => PgnBatchParser } = {}) {
+    this.chunkSize = chunkSize;
+    this.batchSize = batchSize;
+    this.createParser = createParser;
+  }
+
+  public async importFile(file: Blob, { signal, onProgress, mode = 'lenient', encoding }: PgnImportOptions = {}): Promise<PgnImportResult> {
+    const parser = this.createParser();
+    const splitter = new PgnGameSplitter();
+    let decoder: TextDecoder | null = null;
+    let fileEncoding: PgnEncoding = encoding ?? 'utf-8';
+    const games: PgnGame[] = [];
+    const diagnostics: PgnDiagnostic[] = [];
+    const progress: PgnImportProgress = { bytesRead: 0, totalBytes: file.size, gamesParsed: 0, errors: 0 };
+    let batch: PgnGameText[] = [];
+
+    const parseBatch = async () => {
+      if (batch.length === 0) return;
+      const result = await parser.parse(batch, mode);
+      batch = [];
+      games.push(...result.games);
+      diagnostics.push(...result.diagnostics);
+      progress.gamesParsed = games.length;
+      progress.errors = diagnostics.length;
+      onProgress?.({ ...progress });
+    };
+
+    const addGames = async (gameTexts: PgnGameText[]) => {
+      for (const gameText of gameTexts) {
+        batch.push(gameText);
+        if (batch.length >= this.batchSize) {
+          await parseBatch();
+          if (signal?.aborted) return;
+        }
+      }
+    };
+
+    try {
+      for (let offset = 0; offset < file.size && !signal?.aborted; offset += this.chunkSize) {
+        const chunk = new Uint8Array(await file.slice(offset, offset + this.chunkSize).arrayBuffer());
+        if (!decoder) {
+          fileEncoding = encoding ?? detectEncoding(chunk.subarray(0, ENCODING_SAMPLE_SIZE)).encoding;
+          decoder = new TextDecoder(fileEncoding);
+        }
+        progress.bytesRead = Math.min(offset + this.chunkSize, file.size);
+        await addGames(splitter.push(decoder.decode(chunk, { stream: true })));
+        onProgress?.({ ...progress });
+      }
+
+      if (!signal?.aborted) {
+        await addGames(splitter.push(decoder?.decode() ?? ''));
+        await addGames(splitter.flush());
+        await parseBatch();
+      }
+    } catch (error) {
+      console.error('PgnImportService: Import failed:', error);
+      return {
+        success: false,
+        games,
+        diagnostics,
+        cancelled: false,
+        encoding: fileEncoding,
+        error: error instanceof Error ? error.message : 'Error reading file'
+      };
+    } finally {
+      parser.terminate();
+    }
+
+    if (signal?.aborted) {
+      return { success: false, games, diagnostics, cancelled: true, encoding: fileEncoding, error: 'Import cancelled' };
+    }
+
+    return {
+      success: games.length > 0,
+      games,
+      diagnostics,
+      cancelled: false,
+      encoding: fileEncoding,
+      error: games.length === 0 ? 'No valid games found in PGN' : undefined
+    };
+  }
+}
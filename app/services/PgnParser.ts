@@ -0,0 +1,444 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { type PgnMove } from './PgnService';
+import { readCommentCommands } from './PgnCommentCommands';
+
+export type PgnTokenType =
+  | 'moveNumber'
+  | 'move'
+  | 'annotation'
+  | 'nag'
+  | 'comment'
+  | 'variationStart'
+  | 'variationEnd'
+  | 'result';
+
+export interface PgnToken {
+  type: PgnTokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+// Traditional suffix annotations and their NAG equivalents
+export const ANNOTATION_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6
+};
+
+// Display symbols for the commonly used NAGs
+export const NAG_SYMBOLS: Record<number, string> = {
+  1: '!',
+  2: '?',
+  3: '!!',
+  4: '??',
+  5: '!?',
+  6: '?!',
+  7: '□',
+  10: '=',
+  13: '∞',
+  14: '⩲',
+  15: '⩱',
+  16: '±',
+  17: '∓',
+  18: '+−',
+  19: '−+',
+  22: '⨀',
+  23: '⨀',
+  32: '⟳',
+  33: '⟳',
+  36: '→',
+  37: '→',
+  40: '↑',
+  41: '↑',
+  132: '⇆',
+  133: '⇆',
+  138: '⊕',
+  139: '⊕',
+  140: '∆',
+  146: 'N'
+};
+
+export function nagToSymbol(nag: number): string {
+  return NAG_SYMBOLS[nag] ?? `$${nag}`;
+}
+
+// NAGs 1-9 judge the move and 10-19 the position, so a move carries at
+// most one of each kind
+const nagKind = (nag: number) => (nag >= 1 && nag <= 9 ? 'move' : nag >= 10 && nag <= 19 ? 'position' : null);
+
+// Adds the NAG to the list, replacing one of the same kind, or removes it if present
+export function toggleNag(nags: number[], nag: number): number[] {
+  if (nags.includes(nag)) {
+    return nags.filter(existing => existing !== nag);
+  }
+  const kind = nagKind(nag);
+  return [...nags.filter(existing => !kind || nagKind(existing) !== kind), nag].sort((a, b) => a - b);
+}
+
+// Strict mode accepts standard SAN only. Lenient mode also reads the
+// notations found in hand-entered and OCR'd files, recording each fix.
+export type PgnParseMode = 'strict' | 'lenient';
+
+// A correction applied while reading a game in lenient mode
+export interface PgnFix {
+  line: number;
+  column: number;
+  original: string;
+  replacement: string;
+  message: string;
+}
+
+export interface ParsedMovetext {
+  moves: PgnMove[];
+  comment?: string;
+  // Game termination marker, when the movetext has one
+  result?: string;
+  fixes: PgnFix[];
+}
+
+// Raised for malformed movetext. Carries the location, the offending token
+// and, for illegal moves, the position the move was tried in. partialMoves
+// holds the mainline read before the error.
+export class PgnParseError extends Error {
+  public partialMoves: PgnMove[] = [];
+
+  constructor(
+    public reason: string,
+    public line: number,
+    public column: number,
+    public token?: string,
+    public fen?: string
+  ) {
+    super(`${reason} at line ${line}, column ${column}`);
+    this.name = 'PgnParseError';
+  }
+}
+
+// Sticky patterns, tried in order at the current offset
+const TOKEN_PATTERNS: Array<{ type: PgnTokenType; regex: RegExp }> = [
+  { type: 'nag', regex: /\$\d+/y },
+  { type: 'result', regex: /(?:1-0|0-1|1\/2-1\/2|\*)(?![\w-])/y },
+  { type: 'move', regex: /[0O]-[0O](?:-[0O])?[+#]?/y },
+  { type: 'moveNumber', regex: /\d+\s*\.*|\.+/y },
+  { type: 'annotation', regex: /[!?]+/y },
+  { type: 'move', regex: /[^\s(){}[\];$!?]+/y }
+];
+
+// firstLine numbers the lines when the movetext does not start the text
+export function tokenizeMovetext(text: string, firstLine: number = 1): PgnToken[] {
+  const tokens: PgnToken[] = [];
+  let index = 0;
+  let line = firstLine;
+  let column = 1;
+
+  const advance = (length: number) => {
+    for (let i = 0; i < length; i++) {
+      if (text[index] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      index++;
+    }
+  };
+
+  const push = (type: PgnTokenType, value: string, length: number) => {
+    tokens.push({ type, value, line, column });
+    advance(length);
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    // "%" in the first column escapes the rest of the line
+    if (char === '%' && column === 1) {
+      const end = text.indexOf('\n', index);
+      advance((end === -1 ? text.length : end) - index);
+      continue;
+    }
+
+    if (char === '{') {
+      const end = text.indexOf('}', index);
+      if (end === -1) {
+        throw new PgnParseError('Unterminated comment', line, column, '{');
+      }
+      push('comment', text.slice(index + 1, end), end - index + 1);
+      continue;
+    }
+
+    if (char === ';') {
+      const end = text.indexOf('\n', index);
+      const stop = end === -1 ? text.length : end;
+      push('comment', text.slice(index + 1, stop), stop - index);
+      continue;
+    }
+
+    if (char === '(') {
+      push('variationStart', char, 1);
+      continue;
+    }
+
+    if (char === ')') {
+      push('variationEnd', char, 1);
+      continue;
+    }
+
+    let matched = false;
+    for (const { type, regex } of TOKEN_PATTERNS) {
+      regex.lastIndex = index;
+      const match = regex.exec(text);
+      if (match) {
+        push(type, match[0].trim(), match[0].length);
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      throw new PgnParseError(`Unexpected character "${char}"`, line, column, char);
+    }
+  }
+
+  return tokens;
+}
+
+const FIGURINES: Record<string, string> = {
+  '♔': 'K', '♕': 'Q', '♖': 'R', '♗': 'B', '♘': 'N', '♙': '',
+  '♚': 'K', '♛': 'Q', '♜': 'R', '♝': 'B', '♞': 'N', '♟': ''
+};
+
+// Check and mate markers are optional when comparing notations
+const withoutCheck = (san: string) => san.replace(/[+#]+$/, '');
+
+// Rewrites common non-standard notations as SAN. Returns the rewritten
+// move and a description of every change made.
+function normalizeSan(value: string): { san: string; changes: string[] } {
+  const changes: string[] = [];
+  let san = value;
+
+  if (/[♔-♟]/.test(san)) {
+    san = san.replace(/[♔-♟]/g, figurine => FIGURINES[figurine]);
+    changes.push('figurine notation');
+  }
+  if (/^0-0/.test(san)) {
+    san = san.replace(/0/g, 'O');
+    changes.push('castling written with zeros');
+  }
+  if (/^[nrqk][a-h1-8x]/.test(san)) {
+    san = san[0].toUpperCase() + san.slice(1);
+    changes.push('lowercase piece letter');
+  }
+  const promotion = san.match(/^([a-h](?:x[a-h])?[18])=?([qrbnQRBN])(.*)$/);
+  if (promotion && !/=[QRBN]/.test(san)) {
+    changes.push(san.includes('=') ? 'lowercase promotion piece' : 'promotion without "="');
+    san = `${promotion[1]}=${promotion[2].toUpperCase()}${promotion[3]}`;
+  }
+
+  return { san, changes };
+}
+
+export class PgnMovetextParser {
+  private tokens: PgnToken[] = [];
+  private position: number = 0;
+  private gameComment: string | undefined;
+  private result: string | undefined;
+  private mainline: PgnMove[] = [];
+  private fixes: PgnFix[] = [];
+
+  constructor(private mode: PgnParseMode = 'lenient') {}
+
+  // Parses movetext into a move list, filling variations recursively.
+  // Each variation is stored on the move it replaces and starts from the
+  // position before that move. Comments before the first mainline move
+  // become the game comment.
+  public parse(movetext: string, startFen: string = DEFAULT_POSITION, firstLine: number = 1): ParsedMovetext {
+    this.tokens = tokenizeMovetext(movetext, firstLine);
+    this.position = 0;
+    this.gameComment = undefined;
+    this.result = undefined;
+    this.mainline = [];
+    this.fixes = [];
+
+    try {
+      const moves = this.parseLine(new Chess(startFen), false);
+      const parsed: ParsedMovetext = { moves, fixes: this.fixes };
+      if (this.gameComment !== undefined) {
+        parsed.comment = this.gameComment;
+      }
+      if (this.result !== undefined) {
+        parsed.result = this.result;
+      }
+      return parsed;
+    } catch (error) {
+      if (error instanceof PgnParseError) {
+        error.partialMoves = this.mainline;
+      }
+      throw error;
+    }
+  }
+
+  private joinComments(existing: string | undefined, comment: string): string {
+    return existing ? `${existing} ${comment}` : comment;
+  }
+
+  // Plays a move token and returns its SAN, or null when it is illegal
+  private playMove(chess: Chess, token: PgnToken): string | null {
+    const tryMove = (san: string, strict: boolean) => {
+      try {
+        return chess.move(san, { strict }).san;
+      } catch {
+        return null;
+      }
+    };
+
+    if (this.mode === 'strict') {
+      const san = tryMove(token.value, true);
+      // chess.js ignores a missing "=" before the promotion piece
+      return san !== null && withoutCheck(san) === withoutCheck(token.value) ? san : null;
+    }
+
+    const { san: normalized, changes } = normalizeSan(token.value);
+    let san = tryMove(normalized, false);
+    // A lowercase "b" may be a bishop rather than the b-pawn
+    if (san === null && /^b[a-h1-8x]/.test(normalized)) {
+      san = tryMove(`B${normalized.slice(1)}`, false);
+      if (san !== null) {
+        changes.push('lowercase piece letter');
+      }
+    }
+    if (san === null) {
+      return null;
+    }
+
+    if (changes.length === 0 && withoutCheck(san) !== withoutCheck(token.value)) {
+      changes.push('non-standard move notation');
+    }
+    if (changes.length > 0) {
+      this.fixes.push({
+        line: token.line,
+        column: token.column,
+        original: token.value,
+        replacement: san,
+        message: changes.join(', ')
+      });
+    }
+    return san;
+  }
+
+  private parseLine(chess: Chess, inVariation: boolean): PgnMove[] {
+    const moves: PgnMove[] = [];
+    let fenBeforeLastMove: string | null = null;
+    let leadingComment: string | undefined;
+    if (!inVariation) {
+      this.mainline = moves;
+    }
+
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+
+      switch (token.type) {
+        case 'move': {
+          const fenBefore = chess.fen();
+          const san = this.playMove(chess, token);
+          if (san === null) {
+            throw new PgnParseError(`Illegal move "${token.value}"`, token.line, token.column, token.value, fenBefore);
+          }
+          fenBeforeLastMove = fenBefore;
+          const move: PgnMove = { san, fen: chess.fen(), variations: [] };
+          if (moves.length === 0 && leadingComment !== undefined) {
+            move.commentBefore = leadingComment;
+          }
+          moves.push(move);
+          this.position++;
+          break;
+        }
+
+        case 'comment': {
+          this.position++;
+          const comment = token.value.replace(/\s+/g, ' ').trim();
+          if (!comment) break;
+
+          if (moves.length > 0) {
+            // Commands such as [%cal] belong to the move, not its text
+            const lastMove = moves[moves.length - 1];
+            const { text, annotations: { shapes, ...values } } = readCommentCommands(comment);
+            if (shapes) {
+              lastMove.shapes = [...(lastMove.shapes ?? []), ...shapes];
+            }
+            Object.assign(lastMove, values);
+            if (text) {
+              lastMove.commentAfter = this.joinComments(lastMove.commentAfter, text);
+            }
+          } else if (inVariation) {
+            leadingComment = this.joinComments(leadingComment, comment);
+          } else {
+            this.gameComment = this.joinComments(this.gameComment, comment);
+          }
+          break;
+        }
+
+        case 'nag':
+        case 'annotation': {
+          this.position++;
+          const nag = token.type === 'nag'
+            ? parseInt(token.value.slice(1), 10)
+            : ANNOTATION_NAGS[token.value];
+          const lastMove = moves[moves.length - 1];
+          if (lastMove && nag !== undefined && !isNaN(nag) && !lastMove.nags?.includes(nag)) {
+            lastMove.nags = [...(lastMove.nags ?? []), nag];
+          }
+          break;
+        }
+
+        case 'variationStart': {
+          if (fenBeforeLastMove === null) {
+            throw new PgnParseError('Variation without a preceding move', token.line, token.column, token.value);
+          }
+          this.position++;
+          const variation = this.parseLine(new Chess(fenBeforeLastMove), true);
+          if (this.tokens[this.position]?.type !== 'variationEnd') {
+            throw new PgnParseError('Unterminated variation starting', token.line, token.column, token.value);
+          }
+          this.position++;
+          if (variation.length > 0) {
+            moves[moves.length - 1].variations.push(variation);
+          }
+          break;
+        }
+
+        case 'variationEnd':
+          if (!inVariation) {
+            throw new PgnParseError('Unmatched ")"', token.line, token.column, token.value);
+          }
+          // Leave the closing parenthesis for the caller to consume
+          return moves;
+
+        case 'result':
+          this.position++;
+          // The game termination marker ends the mainline
+          if (!inVariation) {
+            this.result = token.value;
+            return moves;
+          }
+          break;
+
+        default:
+          // Move numbers carry no information beyond the move order
+          this.position++;
+          break;
+      }
+    }
+
+    return moves;
+  }
+}
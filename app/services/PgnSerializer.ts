@@ -0,0 +1,165 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { type PgnGame, type PgnHeaders, type PgnMove } from './PgnService';
+import { writeCommentCommands } from './PgnCommentCommands';
+
+// Seven Tag Roster, always exported first and in this order
+export const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const STR_DEFAULTS: Record<string, string> = {
+  Event: '?',
+  Site: '?',
+  Date: '????.??.??',
+  Round: '?',
+  White: '?',
+  Black: '?',
+  Result: '*'
+};
+
+// What PgnService shows for roster tags a game leaves out. It is not a
+// PGN value, so those tags are written with their standard unknown value.
+const MISSING_TAG_VALUE = 'Unknown';
+
+// Written after the roster in this order, as SetUp must come before FEN
+const SETUP_TAGS = ['SetUp', 'FEN'];
+
+export const PGN_LINE_WIDTH = 80;
+
+export class PgnSerializer {
+  private maxWidth: number;
+
+  constructor(maxWidth: number = PGN_LINE_WIDTH) {
+    this.maxWidth = maxWidth;
+  }
+
+  public serialize(game: PgnGame): string {
+    const headers = game.startFen && game.startFen !== DEFAULT_POSITION
+      ? { ...game.headers, SetUp: '1', FEN: game.startFen }
+      : game.headers;
+    const headerSection = this.serializeHeaders(headers);
+    const result = game.headers.Result || '*';
+
+    const tokens: string[] = [];
+    if (game.comment) {
+      tokens.push(...this.commentTokens(game.comment));
+    }
+    this.pushLine(tokens, game.moves);
+    tokens.push(result);
+
+    return `${headerSection}\n\n${this.wrap(tokens)}\n`;
+  }
+
+  private serializeHeaders(headers: PgnHeaders): string {
+    const setupTags = SETUP_TAGS.filter(key => headers[key] !== undefined);
+    const otherTags = Object.keys(headers)
+      .filter(key => !SEVEN_TAG_ROSTER.includes(key) && !SETUP_TAGS.includes(key) && headers[key] !== undefined)
+      .sort();
+
+    return [...SEVEN_TAG_ROSTER, ...setupTags, ...otherTags]
+      .map(key => `[${key} "${this.escapeTagValue(this.tagValue(headers, key))}"]`)
+      .join('\n');
+  }
+
+  private tagValue(headers: PgnHeaders, key: string): string {
+    const value = headers[key];
+    if (key in STR_DEFAULTS && (value === undefined || value === MISSING_TAG_VALUE)) {
+      return STR_DEFAULTS[key];
+    }
+    return value ?? '';
+  }
+
+  private escapeTagValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  }
+
+  // Comments may contain any character except the closing brace. Each word
+  // is its own token so long comments can be wrapped.
+  private commentTokens(comment: string): string[] {
+    const words = comment.replace(/}/g, ')').split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    words[0] = `{${words[0]}`;
+    words[words.length - 1] = `${words[words.length - 1]}}`;
+    return words;
+  }
+
+  // The FEN after a move tells who moved and which move number it was,
+  // so numbering is correct for games that do not start at move one.
+  private moveNumberOf(move: PgnMove): { number: number; isWhite: boolean } {
+    const [, turn, , , , fullmove] = move.fen.split(' ');
+    const fullmoveNumber = parseInt(fullmove, 10) || 1;
+    return turn === 'b'
+      ? { number: fullmoveNumber, isWhite: true }
+      : { number: fullmoveNumber - 1, isWhite: false };
+  }
+
+  private pushLine(tokens: string[], moves: PgnMove[]) {
+    let needsNumber = true;
+
+    moves.forEach(move => {
+      if (move.commentBefore) {
+        tokens.push(...this.commentTokens(move.commentBefore));
+        needsNumber = true;
+      }
+
+      const { number, isWhite } = this.moveNumberOf(move);
+      if (isWhite) {
+        tokens.push(`${number}.`);
+      } else if (needsNumber) {
+        tokens.push(`${number}...`);
+      }
+
+      tokens.push(move.san);
+      needsNumber = false;
+
+      move.nags?.forEach(nag => tokens.push(`$${nag}`));
+
+      const commentAfter = [writeCommentCommands(move), move.commentAfter].filter(Boolean).join(' ');
+      if (commentAfter) {
+        tokens.push(...this.commentTokens(commentAfter));
+        needsNumber = true;
+      }
+
+      move.variations.forEach(variation => {
+        tokens.push('(');
+        this.pushLine(tokens, variation);
+        tokens.push(')');
+        needsNumber = true;
+      });
+    });
+  }
+
+  // Joins tokens with single spaces and breaks lines before maxWidth.
+  // Parentheses stick to the token next to them.
+  private wrap(tokens: string[]): string {
+    const words: string[] = [];
+    let openParens = '';
+
+    tokens.forEach(token => {
+      if (token === '(') {
+        openParens += token;
+      } else if (token === ')' && words.length > 0) {
+        words[words.length - 1] += token;
+      } else {
+        words.push(openParens + token);
+        openParens = '';
+      }
+    });
+
+    const lines: string[] = [];
+    let current = '';
+
+    words.forEach(word => {
+      if (current !== '' && current.length + 1 + word.length > this.maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current === '' ? word : `${current} ${word}`;
+      }
+    });
+
+    if (current) {
+      lines.push(current);
+    }
+    return lines.join('\n');
+  }
+}
@@ -1,4 +1,7 @@
-import { Chess } from 'chess.js';
+import { DEFAULT_POSITION, validateFen, type Square } from 'chess.js';
+import { PgnMovetextParser, PgnParseError, type ParsedMovetext, type PgnFix, type PgnParseMode } from './PgnParser';
+import { PgnSerializer } from './PgnSerializer';
+import { PgnGameSplitter, isTagPairLine, type PgnGameText } from './PgnGameSplitter';
 
 export interface PgnHeaders {
   White?: string;
@@ -10,26 +13,89 @@ export interface PgnHeaders {
   [key: string]: string | undefined;
 }
 
+// Colours of the [%cal] and [%csl] comment commands: green, red, yellow, blue
+export type ShapeColor = 'G' | 'R' | 'Y' | 'B';
+
+// An arrow drawn on the board after a move, or a highlighted square when it has no `to`
+export interface BoardShape {
+  color: ShapeColor;
+  from: Square;
+  to?: Square;
+}
+
+// Engine evaluation from White's point of view: a score in pawns or moves to mate
+export interface MoveEvaluation {
+  score?: number;
+  mate?: number;
+  depth?: number;
+}
+
 export interface PgnMove {
   san: string;
   fen: string;
   variations: PgnMove[][];
+  commentBefore?: string;
+  commentAfter?: string;
+  nags?: number[];
+  shapes?: BoardShape[];
+  // Seconds left on the mover's clock after the move
+  clock?: number;
+  // Seconds spent on the move
+  elapsedTime?: number;
+  evaluation?: MoveEvaluation;
 }
 
 export interface PgnGame {
   pgn: string;
   moves: PgnMove[];
   headers: PgnHeaders;
+  comment?: string;
+  // Position before the first move, from the FEN tag; standard start when absent
+  startFen?: string;
+  // Corrections made while reading the game in lenient mode
+  fixes?: PgnFix[];
+}
+
+export interface PgnParseOptions {
+  mode?: PgnParseMode;
+}
+
+// A game that could not be read completely
+export interface PgnDiagnostic {
+  gameNumber: number;
+  line: number;
+  column: number;
+  message: string;
+  token?: string;
+  // Position an illegal move was tried in
+  fen?: string;
+  headers: PgnHeaders;
+  gameText: string;
+  // First line of gameText in the file
+  gameLine: number;
+  // Moves read before the error, when there were any
+  partialGame?: PgnGame;
 }
 
 export interface PgnLoadResult {
   success: boolean;
   games: PgnGame[];
+  diagnostics: PgnDiagnostic[];
   error?: string;
 }
 
+// Values PGN uses for a roster tag that is not known; they are shown as
+// "Unknown" like a missing tag, and PgnSerializer writes them back
+const PGN_UNKNOWN_VALUES = ['?', '????.??.??'];
+
+const knownValue = (value: string | undefined): string | undefined =>
+  value && !PGN_UNKNOWN_VALUES.includes(value) ? value : undefined;
+
+const TAG_PAIR_REGEX = /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/g;
+
 export class PgnService {
   private static instance: PgnService;
+  private serializer = new PgnSerializer();
 
   // Singleton pattern
   public static getInstance(): PgnService {
@@ -42,200 +108,240 @@ export class PgnService {
   private constructor() {}
 
   // Factory method for creating PgnGame objects
-  private createGame(pgn: string, moves: PgnMove[], headers: PgnHeaders): PgnGame {
-    console.log('Creating game with input headers:', headers);
-    
+  private createGame(
+    pgn: string,
+    moves: PgnMove[],
+    headers: PgnHeaders,
+    { comment, startFen = DEFAULT_POSITION, fixes }: Pick<PgnGame, 'comment' | 'startFen' | 'fixes'> = {}
+  ): PgnGame {
     // Ensure all required headers have values, but don't override existing values
     const processedHeaders = {
       ...headers,  // Keep original headers
       // Only set defaults if values don't exist
-      White: headers.White || 'Unknown',
-      Black: headers.Black || 'Unknown',
-      Date: headers.Date || 'Unknown',
-      Event: headers.Event || 'Unknown',
-      Site: headers.Site || 'Unknown',
+      White: knownValue(headers.White) || 'Unknown',
+      Black: knownValue(headers.Black) || 'Unknown',
+      Date: knownValue(headers.Date) || 'Unknown',
+      Event: knownValue(headers.Event) || 'Unknown',
+      Site: knownValue(headers.Site) || 'Unknown',
       Result: headers.Result || '*',
       Round: headers.Round || '-'
     };
 
-    console.log('Final processed headers:', processedHeaders);
-
-    return { 
+    const game: PgnGame = { 
       pgn, 
       moves, 
-      headers: processedHeaders 
+      headers: processedHeaders,
+      startFen
     };
+    if (comment) {
+      game.comment = comment;
+    }
+    if (fixes && fixes.length > 0) {
+      game.fixes = fixes;
+    }
+    return game;
   }
 
   private cleanPgn(pgnText: string): string {
     return pgnText
       .replace(/[\u200B-\u200D\uFEFF]/g, '') // Remove zero-width spaces
       .replace(/\r\n/g, '\n')                 // Normalize line endings
+      .normalize('NFC')                       // Compose accented letters so names compare equal
       .trim();
   }
 
-  private splitGames(pgnText: string): string[] {
-    const games: string[] = [];
-    let currentGame = '';
-    let inGame = false;
-    
-    const lines = pgnText.split('\n');
-    
+  private splitGames(pgnText: string): PgnGameText[] {
+    const splitter = new PgnGameSplitter();
+    return [...splitter.push(pgnText), ...splitter.flush()];
+  }
+
+  // Everything from the first line that is not a tag pair is movetext
+  private extractMovetext(gameText: string): { movetext: string; headerLines: number } {
+    const lines = gameText.split('\n');
+    let index = 0;
+    while (index < lines.length && (lines[index].trim() === '' || isTagPairLine(lines[index]))) {
+      index++;
+    }
+    return { movetext: lines.slice(index).join('\n'), headerLines: index };
+  }
+
+  // Games set up from a position carry it in the FEN tag (normally with [SetUp "1"])
+  private getStartFen(headers: PgnHeaders, gameText: string, firstLine: number): string {
+    const fen = headers.FEN?.trim();
+    if (!fen) {
+      return DEFAULT_POSITION;
+    }
+
+    const validation = validateFen(fen);
+    if (!validation.ok) {
+      const tagLine = gameText.split('\n').findIndex(line => line.trim().startsWith('[FEN'));
+      throw new PgnParseError(`Invalid FEN tag: ${validation.error}`, firstLine + Math.max(tagLine, 0), 1, fen);
+    }
+    return fen;
+  }
+
+  private parseMovetext(gameText: string, startFen: string, firstLine: number, mode: PgnParseMode): ParsedMovetext {
+    const { movetext, headerLines } = this.extractMovetext(gameText);
+    return new PgnMovetextParser(mode).parse(movetext, startFen, firstLine + headerLines);
+  }
+
+  // Reads the tag pair section. Tag values may contain escaped quotes and
+  // backslashes. In lenient mode unescaped quotes inside a value are kept and
+  // unreadable tags are skipped; strict mode rejects both.
+  private extractHeadersFromText(gameText: string, firstLine: number, mode: PgnParseMode, fixes: PgnFix[]): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const lines = gameText.split('\n');
+
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmedLine = line.trim();
-      
-      // Start of a new game when we find a header
-      if (trimmedLine.startsWith('[')) {
-        // If we were already in a game and find a new game's headers
-        if (inGame && i > 0 && !lines[i-1].trim().startsWith('[')) {
-          games.push(currentGame.trim());
-          currentGame = '';
-        }
-        inGame = true;
+      const line = lines[i].trim();
+      if (line === '') continue;
+      if (!isTagPairLine(line)) break;
+
+      const pairs = [...line.matchAll(TAG_PAIR_REGEX)];
+      if (pairs.length > 0 && line.replace(TAG_PAIR_REGEX, '').trim() === '') {
+        pairs.forEach(([, key, value]) => {
+          headers[key] = value.replace(/\\(["\\])/g, '$1').trim();
+        });
+        continue;
       }
-      
-      // Add the line to current game
-      if (trimmedLine || inGame) {
-        currentGame += line + '\n';
+
+      if (mode === 'strict') {
+        throw new PgnParseError('Malformed tag pair', firstLine + i, 1, line);
+      }
+
+      const loosePair = line.match(/^\[\s*(\w+)\s+"(.*)"\s*\]$/);
+      if (loosePair) {
+        const [, key, value] = loosePair;
+        headers[key] = value.trim();
+        fixes.push({
+          line: firstLine + i,
+          column: 1,
+          original: line,
+          replacement: `[${key} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`,
+          message: 'unescaped quotes in tag value'
+        });
+      } else {
+        fixes.push({ line: firstLine + i, column: 1, original: line, replacement: '', message: 'unreadable tag pair ignored' });
       }
     }
-    
-    // Add the last game if it exists
-    if (currentGame.trim()) {
-      games.push(currentGame.trim());
+
+    return headers;
+  }
+
+  private readHeaders(gameText: string, firstLine: number, mode: PgnParseMode, fixes: PgnFix[]): PgnHeaders {
+    return gameText.includes('[') 
+      ? this.extractHeadersFromText(gameText, firstLine, mode, fixes)
+      : {
+          White: 'Unknown',
+          Black: 'Unknown',
+          Date: 'Unknown',
+          Event: 'Unknown',
+          Site: 'Unknown',
+          Result: '*',
+          Round: '-'
+        };
+  }
+
+  // Parses the text of a single game, numbering lines from firstLine.
+  // Throws PgnParseError when the game cannot be read and returns null when
+  // it has no moves and no position of its own. Runs once per game on
+  // imports of whole databases, so it does no logging.
+  public parseGame(gameText: string, firstLine: number = 1, mode: PgnParseMode = 'lenient'): PgnGame | null {
+    const cleanedText = this.cleanPgn(gameText);
+    const headerFixes: PgnFix[] = [];
+    const headers = this.readHeaders(cleanedText, firstLine, mode, headerFixes);
+
+    // Parse moves from the initial position, including nested variations, comments and NAGs
+    const startFen = this.getStartFen(headers, cleanedText, firstLine);
+    const { moves, comment, result, fixes } = this.parseMovetext(cleanedText, startFen, firstLine, mode);
+
+    if (moves.length === 0 && startFen === DEFAULT_POSITION) {
+      return null;
     }
-    
-    // Filter out invalid games (must have moves)
-    return games.filter(game => {
-      const hasValidMoves = game.match(/\d+\./);
-      return hasValidMoves;
-    });
+
+    const allFixes = [...headerFixes, ...fixes];
+    if (result === undefined) {
+      const lines = cleanedText.split('\n');
+      const line = firstLine + lines.length - 1;
+      const column = lines[lines.length - 1].length + 1;
+      if (mode === 'strict') {
+        throw new PgnParseError('Missing game termination marker', line, column);
+      }
+      allFixes.push({ line, column, original: '', replacement: headers.Result || '*', message: 'missing result' });
+    }
+
+    return this.createGame(cleanedText, moves, headers, { comment, startFen, fixes: allFixes });
   }
 
-  private parseMoves(chess: Chess): PgnMove[] {
-    const moves: PgnMove[] = [];
-    const replayChess = new Chess();
-    
-    chess.history({ verbose: true }).forEach(move => {
-      replayChess.move(move);
-      moves.push({
-        san: move.san,
-        fen: replayChess.fen(),
-        variations: []
-      });
-    });
+  private createDiagnostic({ text, line, number }: PgnGameText, error: unknown): PgnDiagnostic {
+    const gameText = this.cleanPgn(text);
+    const headers = this.readHeaders(gameText, line, 'lenient', []);
+    const diagnostic: PgnDiagnostic = {
+      gameNumber: number,
+      line,
+      column: 1,
+      message: error instanceof Error ? error.message : String(error),
+      headers,
+      gameText,
+      gameLine: line
+    };
+
+    if (error instanceof PgnParseError) {
+      diagnostic.line = error.line;
+      diagnostic.column = error.column;
+      diagnostic.message = error.reason;
+      diagnostic.token = error.token;
+      diagnostic.fen = error.fen;
 
-    return moves;
+      if (error.partialMoves.length > 0) {
+        const startFen = this.getStartFen(headers, gameText, line);
+        diagnostic.partialGame = this.createGame(gameText, error.partialMoves, headers, { startFen });
+      }
+    }
+    return diagnostic;
   }
 
-  private extractHeadersFromText(gameText: string): Record<string, string> {
-    const headers: Record<string, string> = {};
-    
-    // Log the first part of the game text to see what we're working with
-    console.log('Extracting headers from game text:', {
-      textPreview: gameText.slice(0, 500),
-      containsBrackets: gameText.includes('['),
-      containsQuotes: gameText.includes('"')
+  // Parses several games. Games that fail are reported as diagnostics.
+  public parseGames(gameTexts: PgnGameText[], mode: PgnParseMode = 'lenient'): Pick<PgnLoadResult, 'games' | 'diagnostics'> {
+    const games: PgnGame[] = [];
+    const diagnostics: PgnDiagnostic[] = [];
+
+    gameTexts.forEach(gameText => {
+      try {
+        const game = this.parseGame(gameText.text, gameText.line, mode);
+        if (game) {
+          games.push(game);
+        }
+      } catch (error) {
+        diagnostics.push(this.createDiagnostic(gameText, error));
+      }
     });
 
-    // Match standard PGN headers with better regex
-    // This regex handles multiline headers and is more lenient with whitespace
-    const headerRegex = /\[([\w\s]+)\s+"([^"]+)"\]/g;
-    let match;
-    
-    while ((match = headerRegex.exec(gameText)) !== null) {
-      const key = match[1].trim();
-      const value = match[2].trim();
-      console.log('Found header:', { key, value });
-      headers[key] = value;
-    }
-    
-    console.log('Final extracted headers:', headers);
-    return headers;
+    return { games, diagnostics };
   }
 
-  public loadFromText(pgnText: string): PgnLoadResult {
+  public loadFromText(pgnText: string, { mode = 'lenient' }: PgnParseOptions = {}): PgnLoadResult {
     try {
       console.log('PgnService: Loading PGN from text:', pgnText.slice(0, 200));
-      const cleanedPgn = this.cleanPgn(pgnText);
-      const gameTexts = this.splitGames(cleanedPgn);
+      // Split before cleaning so diagnostics refer to the lines of the original text
+      const gameTexts = this.splitGames(pgnText);
       
       console.log('PgnService: Split games:', {
         numberOfGames: gameTexts.length,
-        firstGame: gameTexts[0]?.slice(0, 200)
+        firstGame: gameTexts[0]?.text.slice(0, 200)
       });
 
-      const games: PgnGame[] = [];
-
-      for (const gameText of gameTexts) {
-        try {
-          console.log('PgnService: Processing game text:', {
-            length: gameText.length,
-            preview: gameText.slice(0, 200),
-            hasHeaders: gameText.includes('['),
-            hasMoves: gameText.includes('1.')
-          });
-
-          // Create a chess instance
-          const chess = new Chess();
-          
-          // Extract headers first
-          const extractedHeaders = gameText.includes('[') 
-            ? this.extractHeadersFromText(gameText)
-            : {
-                White: 'Unknown',
-                Black: 'Unknown',
-                Date: 'Unknown',
-                Event: 'Unknown',
-                Site: 'Unknown',
-                Result: '*',
-                Round: '-'
-              };
-
-          // Set all headers in chess.js
-          Object.entries(extractedHeaders).forEach(([key, value]) => {
-            chess.header(key, value);
-          });
-          
-          // Load the PGN
-          chess.loadPgn(gameText);
-
-          // Parse moves
-          const moves = this.parseMoves(chess);
-          console.log('PgnService: Parsed game moves:', {
-            numberOfMoves: moves.length,
-            firstMove: moves[0]?.san,
-            lastMove: moves[moves.length - 1]?.san
-          });
-
-          if (moves.length > 0) {
-            const game = this.createGame(gameText, moves, extractedHeaders);
-            console.log('PgnService: Created game object:', {
-              headers: game.headers,
-              movesCount: game.moves.length
-            });
-            games.push(game);
-          }
-        } catch (e) {
-          console.error('PgnService: Failed to load game:', e);
-          // Continue to next game
-        }
-      }
+      const { games, diagnostics } = this.parseGames(gameTexts, mode);
 
       console.log('PgnService: Finished loading games:', {
         totalGames: games.length,
-        allGames: games.map(g => ({
-          white: g.headers.White,
-          black: g.headers.Black,
-          event: g.headers.Event,
-          moves: g.moves.length
-        }))
+        failedGames: diagnostics.length
       });
 
       return { 
         success: games.length > 0, 
         games,
+        diagnostics,
         error: games.length === 0 ? 'No valid games found in PGN' : undefined
       };
     } catch (error) {
@@ -243,31 +349,19 @@ export class PgnService {
       return { 
         success: false, 
         games: [], 
+        diagnostics: [],
         error: error instanceof Error ? error.message : 'Unknown error loading PGN' 
       };
     }
   }
 
-  public async loadFromFile(file: File): Promise<PgnLoadResult> {
-    try {
-      const text = await file.text();
-      return this.loadFromText(text);
-    } catch (error) {
-      return { 
-        success: false, 
-        games: [], 
-        error: error instanceof Error ? error.message : 'Error reading file' 
-      };
-    }
+  public toPgn(game: PgnGame): string {
+    return this.serializer.serialize(game);
   }
 
+  // True when every game in the text is standard PGN
   public validatePgn(pgnText: string): boolean {
-    try {
-      const chess = new Chess();
-      chess.loadPgn(this.cleanPgn(pgnText));
-      return true;
-    } catch {
-      return false;
-    }
+    const result = this.loadFromText(pgnText, { mode: 'strict' });
+    return result.success && result.diagnostics.length === 0;
   }
-} 
\ No newline at end of file
+}
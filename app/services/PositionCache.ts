@@ -0,0 +1,59 @@
+import { Chess } from 'chess.js';
+import { type PgnHeaders } from './PgnService';
+
+// Positions kept for the most recently visited moves on each board
+export const POSITION_CACHE_SIZE = 256;
+
+// Anything in the tree that knows the position reached, such as a move node
+export interface PositionSource {
+  id: string;
+  fen: string;
+}
+
+// Chess instances for the positions of a game, built from the FEN stored with
+// each move the first time it is visited, so navigating never replays moves.
+// The instances are shared and must not be changed by callers.
+export class PositionCache {
+  private positions = new Map<string, Chess>();
+  private headers: PgnHeaders = {};
+
+  constructor(private limit: number = POSITION_CACHE_SIZE) {}
+
+  public get(source: PositionSource): Chess {
+    const position = this.positions.get(source.id) ?? this.createPosition(source.fen);
+
+    // Re-inserted so the map stays ordered from least to most recently used
+    this.positions.delete(source.id);
+    this.positions.set(source.id, position);
+    if (this.positions.size > this.limit) {
+      this.positions.delete(this.positions.keys().next().value!);
+    }
+    return position;
+  }
+
+  // Headers are part of every position, so positions built with the old ones are dropped
+  public setHeaders(headers: PgnHeaders): void {
+    this.headers = headers;
+    this.clear();
+  }
+
+  public has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  public get size(): number {
+    return this.positions.size;
+  }
+
+  public clear(): void {
+    this.positions.clear();
+  }
+
+  private createPosition(fen: string): Chess {
+    const position = new Chess(fen);
+    Object.entries(this.headers).forEach(([key, value]) => {
+      if (value) position.header(key, value);
+    });
+    return position;
+  }
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { type NavigationCommand } from './NavigationService';
+
+// A key with the modifiers that must be held, matched exactly
+export interface KeyCombo {
+  key: string;
+  ctrlKey?: boolean;
+  shiftKey?: boolean;
+  altKey?: boolean;
+  // Cmd on macOS, so Cmd+C is not taken for a plain C binding
+  metaKey?: boolean;
+}
+
+export type CommandCategory = 'General' | 'Navigation' | 'Editing' | 'Analysis' | 'Games';
+
+export interface CommandDefinition {
+  command: NavigationCommand;
+  label: string;
+  category: CommandCategory;
+  defaultShortcuts: KeyCombo[];
+}
+
+// Every command that can be bound to keys, in the order the settings list them
+export const COMMANDS: CommandDefinition[] = [
+  { command: 'commandPalette', label: 'Command palette', category: 'General', defaultShortcuts: [{ key: 'k', ctrlKey: true }] },
+  { command: 'first', label: 'First move', category: 'Navigation', defaultShortcuts: [{ key: 'Home' }] },
+  { command: 'prev', label: 'Previous move', category: 'Navigation', defaultShortcuts: [{ key: 'ArrowLeft' }] },
+  { command: 'next', label: 'Next move', category: 'Navigation', defaultShortcuts: [{ key: 'ArrowRight' }] },
+  { command: 'last', label: 'Last move', category: 'Navigation', defaultShortcuts: [{ key: 'End' }] },
+  { command: 'chooseVariation', label: 'Choose variation', category: 'Navigation', defaultShortcuts: [{ key: 'ArrowDown' }] },
+  { command: 'enterVariation', label: 'Enter first variation', category: 'Navigation', defaultShortcuts: [] },
+  { command: 'exitVariation', label: 'Back to parent line', category: 'Navigation', defaultShortcuts: [{ key: 'ArrowUp' }] },
+  { command: 'nextBranchPoint', label: 'Next branch point', category: 'Navigation', defaultShortcuts: [{ key: 'ArrowRight', ctrlKey: true }] },
+  { command: 'togglePlay', label: 'Play or pause', category: 'Navigation', defaultShortcuts: [{ key: ' ' }] },
+  { command: 'flip', label: 'Flip board', category: 'Navigation', defaultShortcuts: [{ key: 'f' }] },
+  { command: 'promoteVariation', label: 'Promote to main line', category: 'Editing', defaultShortcuts: [{ key: 'Enter', altKey: true }] },
+  { command: 'moveVariationUp', label: 'Move variation up', category: 'Editing', defaultShortcuts: [{ key: 'ArrowUp', altKey: true }] },
+  { command: 'moveVariationDown', label: 'Move variation down', category: 'Editing', defaultShortcuts: [{ key: 'ArrowDown', altKey: true }] },
+  { command: 'deleteVariation', label: 'Delete variation', category: 'Editing', defaultShortcuts: [{ key: 'Delete' }] },
+  { command: 'deleteRemainingMoves', label: 'Delete remaining moves', category: 'Editing', defaultShortcuts: [{ key: 'Delete', ctrlKey: true }] },
+  { command: 'deleteMovesBefore', label: 'Delete previous moves', category: 'Editing', defaultShortcuts: [{ key: 'Backspace', ctrlKey: true }] },
+  { command: 'comment', label: 'Comment on move', category: 'Editing', defaultShortcuts: [{ key: 'c' }] },
+  { command: 'undo', label: 'Undo', category: 'Editing', defaultShortcuts: [{ key: 'z', ctrlKey: true }] },
+  {
+    command: 'redo',
+    label: 'Redo',
+    category: 'Editing',
+    defaultShortcuts: [{ key: 'y', ctrlKey: true }, { key: 'Z', ctrlKey: true, shiftKey: true }]
+  },
+  { command: 'toggleEngine', label: 'Start or stop engine', category: 'Analysis', defaultShortcuts: [{ key: 'e' }] },
+  { command: 'openFile', label: 'Open PGN file', category: 'Games', defaultShortcuts: [{ key: 'o', ctrlKey: true }] },
+  { command: 'pastePgn', label: 'Paste PGN', category: 'Games', defaultShortcuts: [{ key: 'V', ctrlKey: true, shiftKey: true }] },
+  { command: 'pasteFen', label: 'Paste FEN', category: 'Games', defaultShortcuts: [{ key: 'F', ctrlKey: true, shiftKey: true }] },
+  { command: 'newBoard', label: 'New board', category: 'Games', defaultShortcuts: [{ key: 'N', shiftKey: true }] },
+  { command: 'nextGame', label: 'Next game in list', category: 'Games', defaultShortcuts: [{ key: 'PageDown' }] },
+  { command: 'prevGame', label: 'Previous game in list', category: 'Games', defaultShortcuts: [{ key: 'PageUp' }] }
+];
+
+export const SHORTCUTS_STORAGE_KEY = 'chess-viewer-shortcuts';
+
+// Keys that only modify others and cannot be shortcuts on their own
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock'];
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Delete: 'Del',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn'
+};
+
+export function isSameCombo(a: KeyCombo, b: KeyCombo): boolean {
+  return a.key === b.key &&
+    !!a.ctrlKey === !!b.ctrlKey &&
+    !!a.shiftKey === !!b.shiftKey &&
+    !!a.altKey === !!b.altKey &&
+    !!a.metaKey === !!b.metaKey;
+}
+
+// The combo pressed in a key event, or null for a lone modifier
+export function comboFromEvent(e: KeyboardEvent): KeyCombo | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  return { key: e.key, ctrlKey: e.ctrlKey, shiftKey: e.shiftKey, altKey: e.altKey, metaKey: e.metaKey };
+}
+
+// Shown in menus and settings, e.g. "Ctrl+Shift+Z" or "Alt+↑"
+export function formatShortcut(combo: KeyCombo): string {
+  const key = KEY_NAMES[combo.key] ?? (combo.key.length === 1 ? combo.key.toUpperCase() : combo.key);
+  return [combo.metaKey && 'Cmd', combo.ctrlKey && 'Ctrl', combo.altKey && 'Alt', combo.shiftKey && 'Shift', key]
+    .filter(Boolean)
+    .join('+');
+}
+
+export function getCommandLabel(command: NavigationCommand): string {
+  return COMMANDS.find(definition => definition.command === command)?.label ?? command;
+}
+
+export interface ShortcutObserver {
+  onShortcutsChange(): void;
+}
+
+// The keys bound to each command, shared by every board. Only changes from
+// the defaults are stored, so new commands get their default keys.
+export class ShortcutService {
+  private static instance: ShortcutService | null = null;
+  private overrides: Partial<Record<NavigationCommand, KeyCombo[]>> = {};
+  private observers: ShortcutObserver[] = [];
+
+  constructor(private storage: Storage | null = typeof window !== 'undefined' ? window.localStorage : null) {
+    this.load();
+  }
+
+  public static getInstance(): ShortcutService {
+    if (!ShortcutService.instance) {
+      ShortcutService.instance = new ShortcutService();
+    }
+    return ShortcutService.instance;
+  }
+
+  public getShortcuts(command: NavigationCommand): KeyCombo[] {
+    return this.overrides[command] ??
+      COMMANDS.find(definition => definition.command === command)?.defaultShortcuts ??
+      [];
+  }
+
+  // The first key of a command as shown next to buttons and menu items
+  public getShortcutLabel(command: NavigationCommand): string | undefined {
+    const [shortcut] = this.getShortcuts(command);
+    return shortcut ? formatShortcut(shortcut) : undefined;
+  }
+
+  public setShortcuts(command: NavigationCommand, shortcuts: KeyCombo[]): void {
+    this.overrides = { ...this.overrides, [command]: shortcuts };
+    this.save();
+  }
+
+  // Binds the combo to the command, taking it away from any command that
+  // had it so each combo runs one command
+  public assignShortcut(command: NavigationCommand, combo: KeyCombo): void {
+    const overrides = { ...this.overrides };
+    this.findConflicts(combo, command).forEach(other => {
+      overrides[other] = this.getShortcuts(other).filter(shortcut => !isSameCombo(shortcut, combo));
+    });
+    overrides[command] = [...this.getShortcuts(command).filter(shortcut => !isSameCombo(shortcut, combo)), combo];
+    this.overrides = overrides;
+    this.save();
+  }
+
+  public removeShortcut(command: NavigationCommand, combo: KeyCombo): void {
+    this.setShortcuts(command, this.getShortcuts(command).filter(shortcut => !isSameCombo(shortcut, combo)));
+  }
+
+  // Commands other than the given one that the combo already runs
+  public findConflicts(combo: KeyCombo, command?: NavigationCommand): NavigationCommand[] {
+    return COMMANDS
+      .map(definition => definition.command)
+      .filter(other => other !== command && this.getShortcuts(other).some(shortcut => isSameCombo(shortcut, combo)));
+  }
+
+  public getCommandForEvent(e: KeyboardEvent): NavigationCommand | null {
+    const combo = comboFromEvent(e);
+    if (!combo) return null;
+    return COMMANDS.find(({ command }) => this.getShortcuts(command).some(shortcut => isSameCombo(shortcut, combo)))
+      ?.command ?? null;
+  }
+
+  public isCustomized(command: NavigationCommand): boolean {
+    return command in this.overrides;
+  }
+
+  public resetShortcuts(command?: NavigationCommand): void {
+    const overrides = { ...this.overrides };
+    if (command) {
+      delete overrides[command];
+    }
+    this.overrides = command ? overrides : {};
+    this.save();
+  }
+
+  public addObserver(observer: ShortcutObserver): void {
+    this.observers.push(observer);
+  }
+
+  public removeObserver(observer: ShortcutObserver): void {
+    this.observers = this.observers.filter(obs => obs !== observer);
+  }
+
+  // Ignores stored commands that no longer exist and anything malformed
+  private load(): void {
+    try {
+      const stored = JSON.parse(this.storage?.getItem(SHORTCUTS_STORAGE_KEY) ?? '{}');
+      COMMANDS.forEach(({ command }) => {
+        const shortcuts = stored[command];
+        if (Array.isArray(shortcuts) && shortcuts.every(shortcut => typeof shortcut?.key === 'string')) {
+          this.overrides[command] = shortcuts;
+        }
+      });
+    } catch (error) {
+      console.error('Failed to load keyboard shortcuts:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(this.overrides));
+    } catch (error) {
+      console.error('Failed to save keyboard shortcuts:', error);
+    }
+    this.observers.forEach(observer => observer.onShortcutsChange());
+  }
+}
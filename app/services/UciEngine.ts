@@ -0,0 +1,249 @@
+import {
+  buildGoCommand,
+  buildPositionCommand,
+  buildSetOptionCommand,
+  parseUciMessage,
+  type UciGoOptions,
+  type UciInfo,
+  type UciOption,
+  type UciOptionValue
+} from './UciProtocol';
+
+// How commands reach an engine and its output comes back, whether a Web
+// Worker, a test stub or anything else that speaks UCI line by line
+export interface EngineTransport {
+  send(command: string): void;
+  // Called with the engine's output, one or more lines at a time
+  setMessageHandler(handler: (output: string) => void): void;
+  terminate(): void;
+}
+
+export class WorkerEngineTransport implements EngineTransport {
+  private worker: Worker;
+
+  constructor(url: string) {
+    this.worker = new Worker(url);
+  }
+
+  public send(command: string): void {
+    this.worker.postMessage(command);
+  }
+
+  public setMessageHandler(handler: (output: string) => void): void {
+    this.worker.onmessage = (e) => {
+      if (typeof e.data === 'string') handler(e.data);
+    };
+    this.worker.onerror = (e) => console.error('Engine worker error:', e);
+  }
+
+  public terminate(): void {
+    this.worker.terminate();
+  }
+}
+
+export function isWasmSupported(): boolean {
+  return typeof WebAssembly === 'object' &&
+    WebAssembly.validate(Uint8Array.of(0x0, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00));
+}
+
+// The WebAssembly build of Stockfish where the browser supports it
+export function createStockfishTransport(): EngineTransport {
+  return new WorkerEngineTransport(isWasmSupported() ? '/stockfish.wasm.js' : '/stockfish.js');
+}
+
+// idle: not started. initializing: waiting for uciok. syncing: waiting for
+// readyok. searching: after go. stopping: waiting for the stopped search's bestmove.
+export type UciEngineState = 'idle' | 'initializing' | 'syncing' | 'ready' | 'searching' | 'stopping' | 'terminated';
+
+export interface UciEngineObserver {
+  // The engine has given its name and options
+  onStarted?(): void;
+  onInfo?(info: UciInfo): void;
+  onBestMove?(move: string | null, ponder?: string): void;
+  onStateChange?(state: UciEngineState): void;
+}
+
+export interface UciSearch {
+  fen: string;
+  // Played from the FEN before searching, in UCI notation
+  moves?: string[];
+  go: UciGoOptions;
+}
+
+// Talks UCI to one engine. Searches wait until the engine has answered
+// readyok to the position, and a new search first stops the running one
+// and waits for its bestmove, so output from an old search never mixes
+// with the new one. Options set while the engine is busy are sent once
+// it is idle again.
+export class UciEngine {
+  private state: UciEngineState = 'idle';
+  private observers: UciEngineObserver[] = [];
+  private pendingCommands: string[] = [];
+  private pendingSearch: (UciSearch & { positioned: boolean }) | null = null;
+  private name = '';
+  private author = '';
+  private options: UciOption[] = [];
+
+  constructor(private transport: EngineTransport) {
+    this.transport.setMessageHandler(output => {
+      output.split(/\r?\n/).filter(line => line.trim()).forEach(line => this.handleLine(line));
+    });
+  }
+
+  public start(): void {
+    if (this.state !== 'idle') return;
+    this.setState('initializing');
+    this.transport.send('uci');
+  }
+
+  public getState(): UciEngineState {
+    return this.state;
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  public getAuthor(): string {
+    return this.author;
+  }
+
+  // The options the engine announced, complete once it has started
+  public getOptions(): UciOption[] {
+    return this.options;
+  }
+
+  public setOption(name: string, value?: UciOptionValue): void {
+    this.sendWhenIdle(buildSetOptionCommand(name, value));
+  }
+
+  public newGame(): void {
+    this.sendWhenIdle('ucinewgame');
+  }
+
+  // Replaces whatever search is running or waiting to run
+  public search(search: UciSearch): void {
+    if (this.state === 'terminated') return;
+
+    this.pendingSearch = { ...search, positioned: false };
+    if (this.state === 'ready') {
+      this.proceed();
+    } else if (this.state === 'searching') {
+      this.stopSearch();
+    }
+  }
+
+  public stop(): void {
+    this.pendingSearch = null;
+    if (this.state === 'searching') this.stopSearch();
+  }
+
+  public isSearching(): boolean {
+    return this.state === 'searching' || this.pendingSearch !== null;
+  }
+
+  public quit(): void {
+    if (this.state === 'terminated') return;
+    this.pendingSearch = null;
+    this.pendingCommands = [];
+    this.transport.send('quit');
+    this.transport.terminate();
+    this.setState('terminated');
+  }
+
+  public addObserver(observer: UciEngineObserver): void {
+    this.observers.push(observer);
+  }
+
+  public removeObserver(observer: UciEngineObserver): void {
+    this.observers = this.observers.filter(obs => obs !== observer);
+  }
+
+  private sendWhenIdle(command: string): void {
+    if (this.state === 'ready') {
+      this.transport.send(command);
+    } else if (this.state !== 'terminated') {
+      this.pendingCommands.push(command);
+    }
+  }
+
+  private stopSearch(): void {
+    this.setState('stopping');
+    this.transport.send('stop');
+  }
+
+  private handleLine(line: string): void {
+    const message = parseUciMessage(line);
+    switch (message.type) {
+      case 'id':
+        if (message.name !== undefined) this.name = message.name;
+        if (message.author !== undefined) this.author = message.author;
+        break;
+      case 'option':
+        this.options = [...this.options.filter(option => option.name !== message.option.name), message.option];
+        break;
+      case 'uciok':
+        if (this.state !== 'initializing') break;
+        this.observers.forEach(observer => observer.onStarted?.());
+        this.flushCommands();
+        this.sync();
+        break;
+      case 'readyok':
+        if (this.state === 'syncing') this.proceed();
+        break;
+      case 'info':
+        // Output of a search being stopped is out of date
+        if (this.state === 'searching') {
+          this.observers.forEach(observer => observer.onInfo?.(message.info));
+        }
+        break;
+      case 'bestmove':
+        if (this.state !== 'searching' && this.state !== 'stopping') break;
+        if (this.state === 'searching') {
+          this.observers.forEach(observer => observer.onBestMove?.(message.move, message.ponder));
+        }
+        this.proceed();
+        break;
+    }
+  }
+
+  // Runs what was waiting for the engine to be idle: queued commands first,
+  // then the position of a pending search, and once the engine has
+  // confirmed it with readyok, the search itself
+  private proceed(): void {
+    if (this.flushCommands() && this.pendingSearch) {
+      this.pendingSearch.positioned = false;
+    }
+
+    const search = this.pendingSearch;
+    if (!search) {
+      this.setState('ready');
+    } else if (!search.positioned) {
+      search.positioned = true;
+      this.transport.send(buildPositionCommand(search.fen, search.moves));
+      this.sync();
+    } else {
+      this.pendingSearch = null;
+      this.setState('searching');
+      this.transport.send(buildGoCommand(search.go));
+    }
+  }
+
+  private sync(): void {
+    this.setState('syncing');
+    this.transport.send('isready');
+  }
+
+  private flushCommands(): boolean {
+    const commands = this.pendingCommands;
+    this.pendingCommands = [];
+    commands.forEach(command => this.transport.send(command));
+    return commands.length > 0;
+  }
+
+  private setState(state: UciEngineState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.observers.forEach(observer => observer.onStateChange?.(state));
+  }
+}
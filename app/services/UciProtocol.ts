@@ -0,0 +1,288 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+
+// A score as the engine reports it, from the point of view of the side to move
+export interface UciScore {
+  type: 'cp' | 'mate';
+  value: number;
+  // Set when the search failed high or low and the score is only a bound
+  bound?: 'lower' | 'upper';
+}
+
+// Everything an "info" line can carry; fields the line leaves out are undefined
+export interface UciInfo {
+  depth?: number;
+  seldepth?: number;
+  time?: number;
+  nodes?: number;
+  multipv?: number;
+  score?: UciScore;
+  // Win, draw and loss chances in permille, sent with UCI_ShowWDL
+  wdl?: [number, number, number];
+  currmove?: string;
+  currmovenumber?: number;
+  hashfull?: number;
+  nps?: number;
+  tbhits?: number;
+  sbhits?: number;
+  cpuload?: number;
+  pv?: string[];
+  refutation?: string[];
+  currline?: string[];
+  string?: string;
+}
+
+export type UciOptionType = 'check' | 'spin' | 'combo' | 'button' | 'string';
+
+export type UciOptionValue = string | number | boolean;
+
+// An option the engine announces after "uci"
+export interface UciOption {
+  name: string;
+  type: UciOptionType;
+  default?: UciOptionValue;
+  min?: number;
+  max?: number;
+  // The choices of a combo option
+  vars?: string[];
+}
+
+export type UciMessage =
+  | { type: 'id'; name?: string; author?: string }
+  | { type: 'uciok' }
+  | { type: 'readyok' }
+  | { type: 'bestmove'; move: string | null; ponder?: string }
+  | { type: 'option'; option: UciOption }
+  | { type: 'info'; info: UciInfo }
+  | { type: 'unknown'; line: string };
+
+// Limits and modes for "go"; a search with none of them runs until stopped
+export interface UciGoOptions {
+  depth?: number;
+  nodes?: number;
+  movetime?: number;
+  mate?: number;
+  infinite?: boolean;
+  // Only these moves, in UCI notation, are searched
+  searchmoves?: string[];
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movestogo?: number;
+  ponder?: boolean;
+}
+
+const INFO_NUMBER_FIELDS = [
+  'depth', 'seldepth', 'time', 'nodes', 'multipv', 'currmovenumber',
+  'hashfull', 'nps', 'tbhits', 'sbhits', 'cpuload'
+] as const;
+
+const INFO_KEYWORDS = new Set<string>([
+  ...INFO_NUMBER_FIELDS, 'score', 'wdl', 'currmove', 'pv', 'refutation', 'currline', 'string'
+]);
+
+const OPTION_KEYWORDS = new Set(['name', 'type', 'default', 'min', 'max', 'var']);
+
+// e2e4, e7e8q, and 0000 for a null move
+const UCI_MOVE = /^([a-h][1-8][a-h][1-8][qrbn]?|0000)$/;
+
+export function isUciMove(token: string): boolean {
+  return UCI_MOVE.test(token);
+}
+
+// Reads one line the engine wrote. Lines that are not part of the
+// protocol, such as a greeting, come back as 'unknown'.
+export function parseUciMessage(line: string): UciMessage {
+  const tokens = line.trim().split(/\s+/);
+  switch (tokens[0]) {
+    case 'id':
+      return parseId(tokens, line);
+    case 'uciok':
+      return { type: 'uciok' };
+    case 'readyok':
+      return { type: 'readyok' };
+    case 'bestmove':
+      return {
+        type: 'bestmove',
+        move: tokens[1] && tokens[1] !== '(none)' ? tokens[1] : null,
+        ponder: tokens[2] === 'ponder' ? tokens[3] : undefined
+      };
+    case 'option': {
+      const option = parseOption(tokens);
+      return option ? { type: 'option', option } : { type: 'unknown', line };
+    }
+    case 'info':
+      return { type: 'info', info: parseInfo(tokens) };
+    default:
+      return { type: 'unknown', line };
+  }
+}
+
+function parseId(tokens: string[], line: string): UciMessage {
+  const value = tokens.slice(2).join(' ');
+  if (tokens[1] === 'name') return { type: 'id', name: value };
+  if (tokens[1] === 'author') return { type: 'id', author: value };
+  return { type: 'unknown', line };
+}
+
+// Move lists run for as long as the tokens are moves, so text some engines
+// append after the pv, such as Stockfish's "bmc", is not taken for moves
+function readMoves(tokens: string[], start: number): string[] {
+  const moves: string[] = [];
+  for (let i = start; i < tokens.length && isUciMove(tokens[i]); i++) {
+    moves.push(tokens[i]);
+  }
+  return moves;
+}
+
+function parseInfo(tokens: string[]): UciInfo {
+  const info: UciInfo = {};
+  let i = 1;
+  while (i < tokens.length) {
+    const keyword = tokens[i++];
+    const numberField = INFO_NUMBER_FIELDS.find(field => field === keyword);
+
+    if (numberField) {
+      const value = parseInt(tokens[i], 10);
+      if (!isNaN(value)) {
+        info[numberField] = value;
+        i++;
+      }
+    } else if (keyword === 'score') {
+      const type = tokens[i];
+      const value = parseInt(tokens[i + 1], 10);
+      if ((type === 'cp' || type === 'mate') && !isNaN(value)) {
+        info.score = { type, value };
+        i += 2;
+        if (tokens[i] === 'lowerbound' || tokens[i] === 'upperbound') {
+          info.score.bound = tokens[i] === 'lowerbound' ? 'lower' : 'upper';
+          i++;
+        }
+      }
+    } else if (keyword === 'wdl') {
+      const values = tokens.slice(i, i + 3).map(token => parseInt(token, 10));
+      if (values.length === 3 && values.every(value => !isNaN(value))) {
+        info.wdl = values as [number, number, number];
+        i += 3;
+      }
+    } else if (keyword === 'currmove') {
+      if (tokens[i] && isUciMove(tokens[i])) info.currmove = tokens[i++];
+    } else if (keyword === 'pv' || keyword === 'refutation') {
+      info[keyword] = readMoves(tokens, i);
+      i += info[keyword]!.length;
+    } else if (keyword === 'currline') {
+      // An optional CPU number comes before the moves
+      if (/^\d+$/.test(tokens[i] ?? '')) i++;
+      info.currline = readMoves(tokens, i);
+      i += info.currline.length;
+    } else if (keyword === 'string') {
+      // The rest of the line is free text
+      info.string = tokens.slice(i).join(' ');
+      break;
+    }
+    // Anything else is skipped up to the next keyword
+    while (i < tokens.length && !INFO_KEYWORDS.has(tokens[i])) i++;
+  }
+  return info;
+}
+
+// "option name Skill Level type spin default 20 min 0 max 20"; names and
+// defaults may contain spaces, so each runs up to the next keyword
+function parseOption(tokens: string[]): UciOption | null {
+  const fields: Record<string, string> = {};
+  const vars: string[] = [];
+
+  let i = 1;
+  while (i < tokens.length) {
+    const keyword = tokens[i++];
+    if (!OPTION_KEYWORDS.has(keyword)) continue;
+
+    const words: string[] = [];
+    // Names may contain keywords other than "type", e.g. "Use NNUE"
+    while (i < tokens.length && !(keyword === 'name' ? tokens[i] === 'type' : OPTION_KEYWORDS.has(tokens[i]))) {
+      words.push(tokens[i++]);
+    }
+    if (keyword === 'var') {
+      vars.push(words.join(' '));
+    } else {
+      fields[keyword] = words.join(' ');
+    }
+  }
+
+  const type = fields.type as UciOptionType;
+  if (!fields.name || !['check', 'spin', 'combo', 'button', 'string'].includes(type)) return null;
+
+  const option: UciOption = { name: fields.name, type };
+  if ('default' in fields) {
+    const value = fields.default === '<empty>' ? '' : fields.default;
+    option.default = type === 'check' ? value === 'true' : type === 'spin' ? parseInt(value, 10) : value;
+  }
+  if (fields.min !== undefined) option.min = parseInt(fields.min, 10);
+  if (fields.max !== undefined) option.max = parseInt(fields.max, 10);
+  if (type === 'combo') option.vars = vars;
+  return option;
+}
+
+// Option names are not case sensitive
+export function findOption(options: UciOption[], name: string): UciOption | undefined {
+  const lowerName = name.toLowerCase();
+  return options.find(option => option.name.toLowerCase() === lowerName);
+}
+
+// The value in the form the option takes: spins are rounded into their
+// range and combos matched to one of their choices. Undefined when the
+// value cannot be given to the option, as for buttons.
+export function normalizeOptionValue(option: UciOption, value: UciOptionValue): UciOptionValue | undefined {
+  switch (option.type) {
+    case 'spin': {
+      const number = Math.round(Number(value));
+      if (isNaN(number)) return undefined;
+      return Math.min(option.max ?? Infinity, Math.max(option.min ?? -Infinity, number));
+    }
+    case 'check':
+      return value === true || value === 'true';
+    case 'combo':
+      return option.vars?.find(choice => choice.toLowerCase() === String(value).toLowerCase());
+    case 'string':
+      return String(value);
+    case 'button':
+      return undefined;
+  }
+}
+
+export function buildSetOptionCommand(name: string, value?: UciOptionValue): string {
+  return value === undefined ? `setoption name ${name}` : `setoption name ${name} value ${value}`;
+}
+
+export function buildPositionCommand(fen: string = DEFAULT_POSITION, moves: string[] = []): string {
+  const position = fen === DEFAULT_POSITION ? 'position startpos' : `position fen ${fen}`;
+  return moves.length > 0 ? `${position} moves ${moves.join(' ')}` : position;
+}
+
+// searchmoves is written last, as everything after it is read as a move
+export function buildGoCommand(options: UciGoOptions = {}): string {
+  const parts = ['go'];
+  if (options.ponder) parts.push('ponder');
+  (['wtime', 'btime', 'winc', 'binc', 'movestogo', 'depth', 'nodes', 'mate', 'movetime'] as const).forEach(field => {
+    if (options[field] !== undefined) parts.push(field, String(options[field]));
+  });
+  if (options.infinite) parts.push('infinite');
+  if (options.searchmoves?.length) parts.push('searchmoves', ...options.searchmoves);
+  return parts.join(' ');
+}
+
+// Plays the UCI moves from the position and gives them in SAN, stopping at
+// the first move that is not legal there
+export function uciMovesToSan(fen: string, moves: string[]): string[] {
+  const chess = new Chess(fen);
+  const sanMoves: string[] = [];
+  for (const move of moves) {
+    try {
+      const result = chess.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] });
+      sanMoves.push(result.san);
+    } catch {
+      break;
+    }
+  }
+  return sanMoves;
+}
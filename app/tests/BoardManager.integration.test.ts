@@ -196,17 +196,23 @@ describe('BoardManager Integration Tests', () => {
 
       // Configure different engine settings for each board
       board1.engineService.initialize({
-        threads: 1,
-        hash: 16,
-        multiPv: 1,
-        depth: 20
+        searchMode: 'depth',
+        depth: 20,
+        movetime: 10000,
+        nodes: 1000000,
+        scorePerspective: 'white',
+        showExpectedScore: false,
+        options: { Threads: 1, Hash: 16, MultiPV: 1 }
       });
 
       board2.engineService.initialize({
-        threads: 2,
-        hash: 32,
-        multiPv: 2,
-        depth: 30
+        searchMode: 'depth',
+        depth: 30,
+        movetime: 10000,
+        nodes: 1000000,
+        scorePerspective: 'white',
+        showExpectedScore: false,
+        options: { Threads: 2, Hash: 32, MultiPV: 2 }
       });
 
       // Make different moves on each board
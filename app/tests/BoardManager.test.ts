@@ -1,4 +1,5 @@
 import { BoardManager, type BoardState, type BoardManagerEvent, type BoardManagerObserver } from '../services/BoardManager';
+import { CommandRegistry } from '../services/CommandRegistry';
 
 describe('BoardManager', () => {
   let boardManager: BoardManager;
@@ -67,6 +68,33 @@ describe('BoardManager', () => {
       expect(boardManager.getActiveBoard()).toBe(board2);
     });
 
+    it('should send keyboard shortcuts to the active board only', () => {
+      const board1 = boardManager.createBoard('1', 'Board 1');
+      const board2 = boardManager.createBoard('2', 'Board 2');
+      const onCommand1 = jest.fn();
+      const onCommand2 = jest.fn();
+      board1.navigationService.addObserver({ onNavigationCommand: onCommand1 });
+      board2.navigationService.addObserver({ onNavigationCommand: onCommand2 });
+
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'f' }));
+      boardManager.setActiveBoard('2');
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'f' }));
+
+      expect(onCommand1).toHaveBeenCalledTimes(1);
+      expect(onCommand2).toHaveBeenCalledTimes(1);
+    });
+
+    it('should offer the other boards in the command palette', () => {
+      boardManager.createBoard('1', 'Board 1');
+      boardManager.createBoard('2', 'Board 2');
+
+      const switchCommands = CommandRegistry.getInstance().search('switch');
+      expect(switchCommands.map(command => command.label)).toEqual(['Switch to Board 2']);
+
+      switchCommands[0].run();
+      expect(boardManager.getActiveBoard()?.id).toBe('2');
+    });
+
     it('should handle active board removal', () => {
       boardManager.createBoard('1', 'Board 1');
       const board2 = boardManager.createBoard('2', 'Board 2');
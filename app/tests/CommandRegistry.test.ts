@@ -0,0 +1,79 @@
+import { CommandRegistry, fuzzyScore, type Command } from '../services/CommandRegistry';
+
+const command = (id: string, label: string, category = 'General', keywords?: string): Command => ({
+  id,
+  label,
+  category,
+  keywords,
+  run: jest.fn()
+});
+
+describe('fuzzyScore', () => {
+  it('should match characters in order only', () => {
+    expect(fuzzyScore('opn', 'Open PGN')).not.toBeNull();
+    expect(fuzzyScore('npo', 'Open PGN')).toBeNull();
+  });
+
+  it('should prefer runs and word starts', () => {
+    expect(fuzzyScore('ngm', 'New Game')!).toBeGreaterThan(fuzzyScore('ngm', 'Change the mode')!);
+    expect(fuzzyScore('paste', 'Paste PGN')!).toBeGreaterThan(fuzzyScore('paste', 'Please analyse the end')!);
+  });
+
+  it('should ignore case and spaces in the query', () => {
+    expect(fuzzyScore('23 nf6', 'Go to 23...Nf6')).not.toBeNull();
+  });
+});
+
+describe('CommandRegistry', () => {
+  let registry: CommandRegistry;
+
+  beforeEach(() => {
+    registry = new CommandRegistry();
+  });
+
+  it('should list registered commands until they are unregistered', () => {
+    const unregister = registry.register([command('open', 'Open PGN'), command('save', 'Save PGN')]);
+    expect(registry.search('').map(c => c.id)).toEqual(['open', 'save']);
+
+    unregister();
+    expect(registry.search('')).toEqual([]);
+  });
+
+  it('should rank the best matches first', () => {
+    registry.register([
+      command('copy', 'Copy PGN', 'Edit'),
+      command('flip', 'Flip board', 'Navigation'),
+      command('paste', 'Paste PGN', 'Edit')
+    ]);
+
+    expect(registry.search('paste').map(c => c.id)).toEqual(['paste']);
+    expect(registry.search('pgn').map(c => c.id)).toEqual(['copy', 'paste']);
+  });
+
+  it('should match keywords just below labels', () => {
+    registry.register([
+      command('game', 'Carlsen – Nepomniachtchi', 'Game', 'World Championship 2021'),
+      command('wc', 'World Championship notes', 'Help')
+    ]);
+
+    expect(registry.search('world').map(c => c.id)).toEqual(['wc', 'game']);
+  });
+
+  it('should ask providers on every search and keep registered commands first', () => {
+    const provider = jest.fn((query: string) => [command('open', 'Provided open'), command(`q-${query}`, 'Typed')]);
+    registry.register([command('open', 'Open PGN')]);
+    const removeProvider = registry.addProvider(provider);
+
+    const commands = registry.getCommands('x');
+    expect(provider).toHaveBeenCalledWith('x');
+    expect(commands.map(c => c.label)).toEqual(['Open PGN', 'Typed']);
+
+    removeProvider();
+    expect(registry.getCommands('x').map(c => c.id)).toEqual(['open']);
+  });
+
+  it('should limit the results', () => {
+    registry.register(Array.from({ length: 10 }, (_, i) => command(`c${i}`, `Command ${i}`)));
+    expect(registry.search('command', 3)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,71 @@
+import { EditHistoryService, type EditCommand } from '../services/EditHistoryService';
+
+describe('EditHistoryService', () => {
+  let history: EditHistoryService;
+  let value: number;
+
+  // Sets value to next, remembering what it was
+  const setValue = (next: number): EditCommand => {
+    const previous = value;
+    value = next;
+    return {
+      description: `Set ${next}`,
+      undo: () => { value = previous; },
+      redo: () => { value = next; }
+    };
+  };
+
+  beforeEach(() => {
+    history = new EditHistoryService();
+    value = 0;
+  });
+
+  it('should undo and redo edits in order', () => {
+    history.push(setValue(1));
+    history.push(setValue(2));
+
+    expect(history.undo()).toBe(true);
+    expect(value).toBe(1);
+    expect(history.undo()).toBe(true);
+    expect(value).toBe(0);
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(value).toBe(1);
+    expect(history.getUndoDescription()).toBe('Set 1');
+    expect(history.getRedoDescription()).toBe('Set 2');
+  });
+
+  it('should drop undone edits when a new edit is made', () => {
+    history.push(setValue(1));
+    history.undo();
+    history.push(setValue(3));
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBe(false);
+    expect(value).toBe(3);
+  });
+
+  it('should keep a limited number of edits', () => {
+    history = new EditHistoryService(2);
+    history.push(setValue(1));
+    history.push(setValue(2));
+    history.push(setValue(3));
+
+    history.undo();
+    history.undo();
+    expect(history.canUndo()).toBe(false);
+    expect(value).toBe(1);
+  });
+
+  it('should notify observers and clear', () => {
+    const onHistoryChange = jest.fn();
+    history.addObserver({ onHistoryChange });
+
+    history.push(setValue(1));
+    history.clear();
+
+    expect(onHistoryChange).toHaveBeenCalledTimes(2);
+    expect(history.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { formatClock, formatTimeSpent, getClocks, getTimeSpent, parseTimeControl } from '../services/GameClock';
+import { MoveTreeService } from '../services/MoveTreeService';
+import { PgnService } from '../services/PgnService';
+
+const loadTree = (movetext: string) => {
+  const game = PgnService.getInstance().loadFromText(`[Event "Clock"]\n\n${movetext}`).games[0];
+  const tree = new MoveTreeService();
+  tree.setMoves(game.moves);
+  return tree;
+};
+
+describe('GameClock', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should parse time controls', () => {
+    expect(parseTimeControl('180+2')).toEqual({ initial: 180, increment: 2 });
+    expect(parseTimeControl('40/7200:3600')).toEqual({ initial: 7200, increment: 0 });
+    expect(parseTimeControl('-')).toBeNull();
+    expect(parseTimeControl(undefined)).toBeNull();
+  });
+
+  it('should show both clocks as they stood after a move', () => {
+    const tree = loadTree('1. e4 { [%clk 0:03:00] } e5 { [%clk 0:02:55] } 2. Nf3 *');
+    const timeControl = parseTimeControl('180+2');
+
+    expect(getClocks(tree.getRoot())).toEqual({});
+    expect(getClocks(tree.getMainlineNode(0)!, timeControl)).toEqual({ white: 180, black: 180 });
+    expect(getClocks(tree.getMainlineNode(2)!, timeControl)).toEqual({ white: 180, black: 175 });
+  });
+
+  it('should work out time spent from the clocks and increment', () => {
+    const tree = loadTree('1. e4 { [%clk 0:03:01] } e5 { [%clk 0:02:55] } 2. Nf3 { [%clk 0:02:50] } Nc6 { [%emt 0:00:07] } *');
+    const timeControl = parseTimeControl('180+2');
+
+    expect(getTimeSpent(tree.getMainlineNode(0)!, timeControl)).toBe(1);
+    expect(getTimeSpent(tree.getMainlineNode(1)!, timeControl)).toBe(7);
+    expect(getTimeSpent(tree.getMainlineNode(2)!, timeControl)).toBe(13);
+    expect(getTimeSpent(tree.getMainlineNode(3)!, timeControl)).toBe(7);
+    expect(getTimeSpent(tree.getMainlineNode(2)!)).toBe(11);
+    expect(getTimeSpent(tree.getMainlineNode(0)!)).toBeUndefined();
+  });
+
+  it('should format clocks and time spent', () => {
+    expect(formatClock(3783)).toBe('1:03:03');
+    expect(formatClock(192)).toBe('3:12');
+    expect(formatClock(9.56)).toBe('0:09.5');
+    expect(formatTimeSpent(12.4)).toBe('12s');
+    expect(formatTimeSpent(65)).toBe('1:05');
+  });
+});
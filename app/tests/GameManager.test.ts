@@ -98,6 +98,31 @@ describe('GameManager', () => {
       expect(gameManager.getCurrentPosition().fen()).toContain('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR');
     });
 
+    it('should keep the game when a different move is played mid-game', () => {
+      gameManager.goToMove(0);
+      expect(gameManager.makeMove('c7', 'c5')).toBe(true);
+
+      expect(gameManager.getMoveHistory().map(move => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+      expect(gameManager.getMoveHistory()[1].variations[0].map(move => move.san)).toEqual(['c5']);
+      expect(gameManager.exportPGN()).toContain('1. e4 e5 (1... c5) 2. Nf3 *');
+    });
+
+    it('should overwrite the rest of the game when asked to', () => {
+      gameManager.goToMove(0);
+      expect(gameManager.makeMove('c7', 'c5', undefined, { overwrite: true })).toBe(true);
+
+      expect(gameManager.getMoveHistory().map(move => move.san)).toEqual(['e4', 'c5']);
+      expect(gameManager.getCurrentMoveIndex()).toBe(1);
+    });
+
+    it('should keep the rest of the game when overwriting with the move played', () => {
+      gameManager.goToMove(0);
+      expect(gameManager.makeMove('e7', 'e5', undefined, { overwrite: true })).toBe(true);
+
+      expect(gameManager.getMoveHistory().map(move => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+      expect(gameManager.getCurrentMoveIndex()).toBe(1);
+    });
+
     it('should reject invalid move indices', () => {
       expect(gameManager.goToMove(-2)).toBe(false);
       expect(gameManager.goToMove(999)).toBe(false);
@@ -154,6 +179,182 @@ describe('GameManager', () => {
     });
   });
 
+  describe('Custom Start Position', () => {
+    const puzzlePgn = `[Event "Puzzle"]
+[SetUp "1"]
+[FEN "6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1"]
+[Result "1-0"]
+
+1. Rd8# 1-0`;
+
+    it('should start and navigate from the FEN tag position', () => {
+      const result = gameManager.loadPGN(puzzlePgn);
+      expect(result.success).toBe(true);
+
+      gameManager.loadGame(result.games[0]);
+      expect(gameManager.getStartFen()).toBe('6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1');
+      expect(gameManager.getCurrentPosition().fen()).toBe('6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1');
+
+      expect(gameManager.goToMove(0)).toBe(true);
+      expect(gameManager.getCurrentPosition().isCheckmate()).toBe(true);
+
+      expect(gameManager.goToMove(-1)).toBe(true);
+      expect(gameManager.getCurrentPosition().fen()).toBe('6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1');
+    });
+
+    it('should treat a loaded FEN as the start of a new game', () => {
+      const fen = '8/8/8/4k3/8/8/4P3/4K3 b - - 0 40';
+      gameManager.loadFEN(fen);
+      gameManager.makeMove('e5', 'd5');
+
+      expect(gameManager.goToMove(-1)).toBe(true);
+      expect(gameManager.getCurrentPosition().fen()).toBe(fen);
+      expect(gameManager.exportPGN()).toContain('40... Kd5 *');
+    });
+  });
+
+  describe('Variations', () => {
+    it('should follow the move tree into a variation', () => {
+      gameManager.loadPGN('1. e4 e5 (1... c5 2. Nf3) 2. Nf3 *');
+      const c5 = gameManager.getMoveTree().getRoot().children[0].children[1];
+
+      expect(gameManager.goToNode(c5.children[0].id)).toBe(true);
+      expect(gameManager.getCurrentPosition().fen()).toBe(c5.children[0].fen);
+
+      gameManager.getMoveTree().exitVariation();
+      expect(gameManager.getCurrentPosition().fen()).toBe(gameManager.getMoveHistory()[0].fen);
+    });
+  });
+
+  describe('Undo and Redo', () => {
+    it('should undo and redo moves', () => {
+      gameManager.makeMove('e2', 'e4');
+      gameManager.makeMove('e7', 'e5');
+
+      expect(gameManager.undo()).toBe(true);
+      expect(gameManager.getMoveHistory().map(move => move.san)).toEqual(['e4']);
+      expect(gameManager.getCurrentPosition().fen()).toBe(gameManager.getMoveHistory()[0].fen);
+
+      expect(gameManager.redo()).toBe(true);
+      expect(gameManager.getMoveHistory().map(move => move.san)).toEqual(['e4', 'e5']);
+      expect(gameManager.getCurrentMoveIndex()).toBe(1);
+    });
+
+    it('should bring back moves lost by overwriting', () => {
+      gameManager.loadPGN('1. e4 e5 2. Nf3 Nc6 *');
+      gameManager.goToMove(1);
+      gameManager.makeMove('f1', 'c4', undefined, { overwrite: true });
+
+      gameManager.undo();
+
+      expect(gameManager.getMoveHistory().map(move => move.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+      expect(gameManager.getCurrentMoveIndex()).toBe(1);
+    });
+
+    it('should undo drawing shapes on a move', () => {
+      gameManager.loadPGN('1. e4 e5 *');
+      const nodeId = gameManager.getMoveTree().getMainlineNode(1)!.id;
+
+      gameManager.annotateMove(nodeId, { shapes: [{ color: 'G', from: 'g1', to: 'f3' }] });
+      expect(gameManager.exportPGN()).toContain('e5 {[%cal Gg1f3]}');
+
+      gameManager.undo();
+      expect(gameManager.getMoveTree().getNode(nodeId)?.shapes).toBeUndefined();
+    });
+
+    it('should not record moving along existing moves', () => {
+      gameManager.loadPGN('1. e4 e5 *');
+      gameManager.makeMove('e2', 'e4');
+
+      expect(gameManager.getCurrentMoveIndex()).toBe(0);
+      expect(gameManager.getEditHistory().canUndo()).toBe(false);
+    });
+
+    it('should undo variation edits, annotations, headers and set-up positions', () => {
+      gameManager.loadPGN('[White "Player 1"]\n\n1. e4 e5 (1... c5) *');
+      const c5 = gameManager.getMoveTree().getRoot().children[0].children[1];
+
+      gameManager.applyEdit(c5.id, 'promoteVariation');
+      gameManager.annotateMove(c5.id, { commentAfter: 'Sicilian', nags: [1] });
+      gameManager.setHeader('White', 'Player 2');
+      gameManager.loadFEN('8/8/8/4k3/8/8/4P3/4K3 w - - 0 1');
+
+      gameManager.undo();
+      expect(gameManager.getHeaders().White).toBe('Player 2');
+      expect(gameManager.exportPGN()).toContain('1. e4 c5 $1 {Sicilian} (1... e5) *');
+
+      gameManager.undo();
+      expect(gameManager.getHeaders().White).toBe('Player 1');
+      gameManager.undo();
+      gameManager.undo();
+      expect(gameManager.exportPGN()).toContain('1. e4 e5 (1... c5) *');
+      expect(gameManager.undo()).toBe(false);
+    });
+
+    it('should start a new history when a game is loaded', () => {
+      gameManager.makeMove('e2', 'e4');
+      gameManager.loadPGN('1. d4 *');
+
+      expect(gameManager.undo()).toBe(false);
+    });
+  });
+
+  describe('PGN Export', () => {
+    it('should export the loaded game with its headers', () => {
+      gameManager.loadPGN(`[Event "Export Test"]
+[White "Player 1"]
+[Black "Player 2"]
+[Result "1-0"]
+
+{Intro} 1. e4 e5 (1... c5) 2. Nf3 1-0`);
+
+      const pgn = gameManager.exportPGN();
+      expect(pgn).toContain('[Event "Export Test"]');
+      expect(pgn).toContain('{Intro} 1. e4 e5 (1... c5) 2. Nf3 1-0');
+    });
+
+    it('should export comments and NAGs added to moves and variations', () => {
+      gameManager.loadPGN('1. e4 e5 (1... c5 2. Nf3) *');
+      const c5 = gameManager.getMoveTree().getRoot().children[0].children[1];
+
+      gameManager.annotateMove(c5.id, { commentBefore: 'Instead', nags: [5] });
+      gameManager.annotateMove(c5.children[0].id, { commentAfter: 'is the Sicilian' });
+      gameManager.setGameComment('Notes');
+
+      expect(gameManager.exportPGN()).toContain('{Notes} 1. e4 e5 ({Instead} 1... c5 $5 2. Nf3 {is the Sicilian}) *');
+    });
+
+    it('should keep comments on their moves after export and reimport', () => {
+      gameManager.loadPGN('1. e4 e5 (1... c5 2. Nf3) 2. Nf3 Nc6 *');
+      const e5 = gameManager.getMoveTree().getRoot().children[0].children[0];
+      const c5 = gameManager.getMoveTree().getRoot().children[0].children[1];
+
+      // Stored the way the annotation editor stores them
+      gameManager.setGameComment('Before e4');
+      gameManager.annotateMove(c5.id, { commentBefore: 'Instead' });
+      gameManager.annotateMove(e5.id, { commentAfter: 'Before Nf3' });
+      gameManager.annotateMove(e5.children[0].id, { commentAfter: 'After Nf3' });
+
+      gameManager.loadPGN(gameManager.exportPGN());
+
+      const reloaded = gameManager.getMoveTree().getRoot().children[0];
+      const [reloadedE5, reloadedC5] = reloaded.children;
+      expect(gameManager.getMoveTree().getGameComment()).toBe('Before e4');
+      expect(reloaded.commentAfter).toBeUndefined();
+      expect(reloadedC5.commentBefore).toBe('Instead');
+      expect(reloadedE5.commentAfter).toBe('Before Nf3');
+      expect(reloadedE5.children[0].commentBefore).toBeUndefined();
+      expect(reloadedE5.children[0].commentAfter).toBe('After Nf3');
+    });
+
+    it('should export moves played on the board', () => {
+      gameManager.makeMove('e2', 'e4');
+      gameManager.makeMove('e7', 'e5');
+
+      expect(gameManager.exportPGN()).toContain('\n\n1. e4 e5 *\n');
+    });
+  });
+
   describe('FEN Loading', () => {
     it('should load valid FEN position', () => {
       const fen = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
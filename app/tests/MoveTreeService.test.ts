@@ -1,4 +1,4 @@
-import { MoveTreeService, type MoveTreeObserver } from '../services/MoveTreeService';
+import { MoveTreeService, type MoveNode, type MoveTreeObserver } from '../services/MoveTreeService';
 import type { PgnMove } from '../services/PgnService';
 
 describe('MoveTreeService', () => {
@@ -149,6 +149,21 @@ describe('MoveTreeService', () => {
       moveTreeService.setMoves(moves);
       expect(moveTreeService.getMoves()[1].variations[0]).toEqual(variation);
     });
+
+    it('should keep the game comment of a loaded game', () => {
+      moveTreeService.loadGame({
+        pgn: '',
+        headers: {},
+        comment: 'Annotated by the coach',
+        moves: [{ san: 'e4', fen: 'test-fen-1', variations: [], commentAfter: 'Best by test', nags: [1] }]
+      });
+
+      expect(moveTreeService.getGameComment()).toBe('Annotated by the coach');
+      expect(moveTreeService.getMoves()[0].commentAfter).toBe('Best by test');
+
+      moveTreeService.reset();
+      expect(moveTreeService.getGameComment()).toBeUndefined();
+    });
   });
 
   describe('Move Navigation', () => {
@@ -185,6 +200,341 @@ describe('MoveTreeService', () => {
     });
   });
 
+  describe('Game Tree', () => {
+    // 1. e4 e5 (1... c5 2. Nf3 (2. c3)) 2. Nf3
+    const gameMoves = (): PgnMove[] => [
+      { san: 'e4', fen: 'fen-e4', variations: [] },
+      {
+        san: 'e5',
+        fen: 'fen-e5',
+        variations: [[
+          { san: 'c5', fen: 'fen-c5', variations: [] },
+          { san: 'Nf3', fen: 'fen-c5-nf3', variations: [[{ san: 'c3', fen: 'fen-c5-c3', variations: [] }]] }
+        ]]
+      },
+      { san: 'Nf3', fen: 'fen-nf3', variations: [] }
+    ];
+
+    beforeEach(() => {
+      moveTreeService.setMoves(gameMoves());
+    });
+
+    const findNode = (...sans: string[]) => {
+      let node = moveTreeService.getRoot();
+      sans.forEach(san => {
+        node = node.children.find(child => child.san === san)!;
+      });
+      return node;
+    };
+
+    it('should step through moves in the order the notation is read', () => {
+      const order: string[] = [];
+      while (moveTreeService.nextInNotation()) {
+        const node = moveTreeService.getCurrentNode();
+        order.push(`${node.ply}${node.san}`);
+      }
+
+      expect(order).toEqual(['1e4', '2e5', '2c5', '3Nf3', '3c3', '3Nf3']);
+      expect(moveTreeService.getCurrentNode()).toBe(findNode('e4', 'e5', 'Nf3'));
+      expect(moveTreeService.getNextInNotation()).toBeNull();
+    });
+
+    it('should build nodes with ids, parents, plies and mainline flags', () => {
+      const root = moveTreeService.getRoot();
+      expect(root.ply).toBe(0);
+      expect(root.children.map(child => child.san)).toEqual(['e4']);
+
+      const e4 = root.children[0];
+      expect(e4.children.map(child => child.san)).toEqual(['e5', 'c5']);
+      expect(e4.children.map(child => child.isMainline)).toEqual([true, false]);
+
+      const c3 = findNode('e4', 'c5', 'c3');
+      expect(c3.ply).toBe(3);
+      expect(c3.fen).toBe('fen-c5-c3');
+      expect(c3.isMainline).toBe(false);
+      expect(c3.parent?.san).toBe('c5');
+      expect(moveTreeService.getNode(c3.id)).toBe(c3);
+    });
+
+    it('should count plies from the start position', () => {
+      moveTreeService.loadGame({
+        pgn: '',
+        headers: {},
+        startFen: '8/8/8/4k3/8/8/4P3/4K3 b - - 0 40',
+        moves: [{ san: 'Kd5', fen: 'fen-kd5', variations: [] }]
+      });
+
+      expect(moveTreeService.getRoot().ply).toBe(79);
+      expect(moveTreeService.getRoot().children[0].ply).toBe(80);
+    });
+
+    it('should give the moves back with their variations', () => {
+      expect(moveTreeService.getMoves()).toEqual(gameMoves());
+    });
+
+    it('should navigate by node id', () => {
+      const c3 = findNode('e4', 'c5', 'c3');
+
+      expect(moveTreeService.goToNode(c3.id)).toBe(true);
+      expect(moveTreeService.getCurrentNode()).toBe(c3);
+      expect(moveTreeService.getCurrentMoveIndex()).toBe(2);
+      expect(moveTreeService.goToNode('missing')).toBe(false);
+      expect(moveTreeService.getCurrentNode()).toBe(c3);
+    });
+
+    it('should notify observers of the current node', () => {
+      const onCurrentNodeChange = jest.fn();
+      moveTreeService.addObserver({ onCurrentNodeChange, onMoveTreeChanged: jest.fn() });
+      const c5 = findNode('e4', 'c5');
+
+      moveTreeService.goToNode(c5.id);
+
+      expect(onCurrentNodeChange).toHaveBeenLastCalledWith(c5);
+    });
+
+    it('should follow the current line', () => {
+      moveTreeService.goToNode(findNode('e4', 'c5').id);
+
+      expect(moveTreeService.nextInLine()).toBe(true);
+      expect(moveTreeService.getCurrentNode().fen).toBe('fen-c5-nf3');
+      expect(moveTreeService.nextInLine()).toBe(false);
+
+      expect(moveTreeService.previous()).toBe(true);
+      expect(moveTreeService.getCurrentNode().san).toBe('c5');
+
+      moveTreeService.goToStart();
+      expect(moveTreeService.goToLineEnd()).toBe(true);
+      expect(moveTreeService.getCurrentNode().fen).toBe('fen-nf3');
+    });
+
+    it('should enter and exit variations', () => {
+      moveTreeService.goToMove(0);
+
+      expect(moveTreeService.enterVariation()).toBe(true);
+      expect(moveTreeService.getCurrentNode().san).toBe('c5');
+      expect(moveTreeService.enterVariation(0)).toBe(true);
+      expect(moveTreeService.getCurrentNode().san).toBe('c3');
+      expect(moveTreeService.enterVariation()).toBe(false);
+
+      // Out of 2. c3 to the position after 1... c5, then out of 1... c5 to the one after 1. e4
+      expect(moveTreeService.exitVariation()).toBe(true);
+      expect(moveTreeService.getCurrentNode().san).toBe('c5');
+      expect(moveTreeService.exitVariation()).toBe(true);
+      expect(moveTreeService.getCurrentNode().san).toBe('e4');
+      expect(moveTreeService.exitVariation()).toBe(false);
+    });
+
+    it('should jump to the next branch point of the current line', () => {
+      expect(moveTreeService.goToNextBranchPoint()).toBe(true);
+      expect(moveTreeService.getCurrentNode().san).toBe('e4');
+      expect(moveTreeService.goToNextBranchPoint()).toBe(false);
+
+      moveTreeService.goToNode(findNode('e4', 'c5').id);
+      expect(moveTreeService.getNextBranchPoint()).toBeNull();
+      expect(moveTreeService.getNextBranchPoint(findNode('e4'))).toBeNull();
+      expect(moveTreeService.getNextBranchPoint(moveTreeService.getRoot())).toBe(findNode('e4'));
+    });
+
+    it('should give the line through a node', () => {
+      moveTreeService.goToNode(findNode('e4', 'c5').id);
+
+      expect(moveTreeService.getLine().map(node => node.san)).toEqual(['e4', 'c5', 'Nf3']);
+      expect(moveTreeService.getLine(findNode('e4', 'c5', 'c3')).map(node => node.san)).toEqual(['e4', 'c5', 'c3']);
+      expect(moveTreeService.getLine(moveTreeService.getRoot()).map(node => node.san)).toEqual(['e4', 'e5', 'Nf3']);
+    });
+
+    it('should give the path to a node', () => {
+      const c3 = findNode('e4', 'c5', 'c3');
+
+      expect(moveTreeService.pathToNode(c3.id).map(node => node.san)).toEqual(['e4', 'c5', 'c3']);
+      expect(moveTreeService.pathToNode(moveTreeService.getRoot().id)).toEqual([]);
+      expect(moveTreeService.pathToNode('missing')).toEqual([]);
+    });
+
+    it('should add a new move as a variation', () => {
+      moveTreeService.goToMove(0);
+
+      const node = moveTreeService.addMove({ san: 'd5', fen: 'fen-d5' });
+
+      expect(moveTreeService.getCurrentNode()).toBe(node);
+      expect(node.isMainline).toBe(false);
+      expect(moveTreeService.getMoves().map(move => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+      expect(moveTreeService.getMoves()[1].variations.map(variation => variation[0].san)).toEqual(['c5', 'd5']);
+    });
+
+    it('should reuse a move that is already in the tree', () => {
+      moveTreeService.goToMove(0);
+      const c5 = findNode('e4', 'c5');
+
+      expect(moveTreeService.addMove({ san: 'c5', fen: 'fen-c5' })).toBe(c5);
+      expect(moveTreeService.getCurrentNode()).toBe(c5);
+      expect(moveTreeService.getRoot().children[0].children).toHaveLength(2);
+    });
+
+    it('should continue a line that ends at the current position', () => {
+      moveTreeService.goToLineEnd();
+
+      const node = moveTreeService.addMove({ san: 'Nc6', fen: 'fen-nc6' });
+
+      expect(node.isMainline).toBe(true);
+      expect(moveTreeService.getMoves().map(move => move.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    });
+
+    it('should replace the continuation when overwriting', () => {
+      moveTreeService.goToMove(0);
+      const removed = findNode('e4', 'c5');
+
+      const node = moveTreeService.addMove({ san: 'd5', fen: 'fen-d5' }, { overwrite: true });
+
+      expect(moveTreeService.getCurrentNode()).toBe(node);
+      expect(node.isMainline).toBe(true);
+      expect(moveTreeService.getMoves().map(move => move.san)).toEqual(['e4', 'd5']);
+      expect(moveTreeService.getNode(removed.id)).toBeNull();
+    });
+
+    it('should reuse the move already played when overwriting with it', () => {
+      moveTreeService.goToMove(0);
+      const e5 = findNode('e4', 'e5');
+      const c5 = findNode('e4', 'c5');
+
+      const node = moveTreeService.addMove({ san: 'e5', fen: 'fen-e5' }, { overwrite: true });
+
+      expect(node).toBe(e5);
+      expect(moveTreeService.getCurrentNode()).toBe(e5);
+      expect(moveTreeService.getMoves().map(move => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+      expect(moveTreeService.getNode(c5.id)).toBe(c5);
+    });
+
+    it('should add a variation to a move', () => {
+      const nf3 = findNode('e4', 'e5', 'Nf3');
+
+      expect(moveTreeService.addVariation(nf3.id, [{ san: 'Bc4', fen: 'fen-bc4', variations: [] }])).toBe(true);
+      expect(moveTreeService.getMoves()[2].variations).toEqual([[{ san: 'Bc4', fen: 'fen-bc4', variations: [] }]]);
+      expect(moveTreeService.addVariation(moveTreeService.getRoot().id, [])).toBe(false);
+    });
+  });
+
+  describe('Tree Editing', () => {
+    // 1. e4 e5 (1... c5 2. Nf3 (2. c3)) (1... e6) 2. Nf3
+    beforeEach(() => {
+      moveTreeService.setMoves([
+        { san: 'e4', fen: 'fen-e4', variations: [] },
+        {
+          san: 'e5',
+          fen: 'fen-e5',
+          variations: [
+            [
+              { san: 'c5', fen: 'fen-c5', variations: [] },
+              { san: 'Nf3', fen: 'fen-c5-nf3', variations: [[{ san: 'c3', fen: 'fen-c5-c3', variations: [] }]] }
+            ],
+            [{ san: 'e6', fen: '8/8/8/4k3/8/8/4P3/4K3 w - - 0 2', variations: [] }]
+          ]
+        },
+        { san: 'Nf3', fen: 'fen-nf3', variations: [] }
+      ]);
+    });
+
+    const replies = () => moveTreeService.getRoot().children[0].children;
+    const sans = (nodes: MoveNode[]) => nodes.map(node => node.san);
+
+    it('should promote a variation to the mainline', () => {
+      const c3 = replies()[1].children[1];
+
+      expect(moveTreeService.applyEdit(c3.id, 'promoteVariation')).toBe(true);
+
+      expect(moveTreeService.getMoves().map(move => move.san)).toEqual(['e4', 'c5', 'c3']);
+      expect(c3.isMainline).toBe(true);
+      expect(sans(replies())).toEqual(['c5', 'e5', 'e6']);
+      expect(replies()[1].isMainline).toBe(false);
+      expect(moveTreeService.canApplyEdit(c3.id, 'promoteVariation')).toBe(false);
+    });
+
+    it('should move variations up and down among their siblings', () => {
+      const e6 = replies()[2];
+
+      expect(moveTreeService.canApplyEdit(replies()[1].id, 'moveVariationUp')).toBe(false);
+      expect(moveTreeService.applyEdit(e6.id, 'moveVariationUp')).toBe(true);
+      expect(sans(replies())).toEqual(['e5', 'e6', 'c5']);
+
+      expect(moveTreeService.applyEdit(e6.id, 'moveVariationDown')).toBe(true);
+      expect(sans(replies())).toEqual(['e5', 'c5', 'e6']);
+      expect(moveTreeService.applyEdit(e6.id, 'moveVariationDown')).toBe(false);
+    });
+
+    it('should delete the variation containing a move', () => {
+      const c5 = replies()[1];
+      const nf3 = c5.children[0];
+      moveTreeService.goToNode(nf3.id);
+
+      expect(moveTreeService.applyEdit(nf3.id, 'deleteVariation')).toBe(true);
+
+      expect(sans(replies())).toEqual(['e5', 'e6']);
+      expect(moveTreeService.getNode(nf3.id)).toBeNull();
+      expect(moveTreeService.getCurrentNode().san).toBe('e4');
+      expect(moveTreeService.canApplyEdit(replies()[0].id, 'deleteVariation')).toBe(false);
+    });
+
+    it('should delete the moves after a move', () => {
+      moveTreeService.goToLineEnd();
+      const e4 = moveTreeService.getRoot().children[0];
+
+      expect(moveTreeService.applyEdit(e4.id, 'deleteRemainingMoves')).toBe(true);
+
+      expect(moveTreeService.getMoves()).toEqual([{ san: 'e4', fen: 'fen-e4', variations: [] }]);
+      expect(moveTreeService.getCurrentNode()).toBe(e4);
+      expect(moveTreeService.canApplyEdit(e4.id, 'deleteRemainingMoves')).toBe(false);
+    });
+
+    it('should make the position after a move the start of the game', () => {
+      const e6 = replies()[2];
+      moveTreeService.goToLineEnd();
+
+      expect(moveTreeService.applyEdit(e6.id, 'deleteMovesBefore')).toBe(true);
+
+      expect(moveTreeService.getStartFen()).toBe(e6.fen);
+      expect(moveTreeService.getMoves()).toEqual([]);
+      expect(moveTreeService.getRoot().ply).toBe(2);
+      expect(moveTreeService.getCurrentNode()).toBe(moveTreeService.getRoot());
+      expect(moveTreeService.getNode(e6.id)).toBeNull();
+    });
+
+    it('should keep the moves after the new start position', () => {
+      const c5 = replies()[1];
+      const c3 = c5.children[1];
+      moveTreeService.goToNode(c3.id);
+
+      moveTreeService.applyEdit(c5.id, 'deleteMovesBefore');
+
+      expect(moveTreeService.getMoves().map(move => move.san)).toEqual(['Nf3']);
+      expect(moveTreeService.getMoves()[0].variations[0].map(move => move.san)).toEqual(['c3']);
+      expect(moveTreeService.getCurrentNode()).toBe(c3);
+      expect(moveTreeService.pathToNode(c3.id).map(node => node.san)).toEqual(['c3']);
+      expect(c5.children[0].isMainline).toBe(true);
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should restore the tree with its node ids and cursor', () => {
+      moveTreeService.setMoves([
+        { san: 'e4', fen: 'fen-e4', variations: [] },
+        { san: 'e5', fen: 'fen-e5', variations: [[{ san: 'c5', fen: 'fen-c5', variations: [] }]], commentAfter: 'Solid' }
+      ]);
+      const c5 = moveTreeService.getRoot().children[0].children[1];
+      moveTreeService.goToNode(c5.id);
+      const snapshot = moveTreeService.getSnapshot();
+      const moves = moveTreeService.getMoves();
+
+      moveTreeService.applyEdit(c5.id, 'deleteVariation');
+      moveTreeService.annotateMove(moveTreeService.getRoot().children[0].id, { commentAfter: 'Changed' });
+      moveTreeService.restoreSnapshot(snapshot);
+
+      expect(moveTreeService.getMoves()).toEqual(moves);
+      expect(moveTreeService.getCurrentNode().id).toBe(c5.id);
+      expect(moveTreeService.getCurrentNode().isMainline).toBe(false);
+      expect(moveTreeService.getCurrentNode().ply).toBe(2);
+    });
+  });
+
   describe('Reset Functionality', () => {
     it('should clear all state on reset', () => {
       const moves: PgnMove[] = [
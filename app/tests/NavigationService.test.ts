@@ -1,4 +1,7 @@
 import { NavigationService, type NavigationCommand, type NavigationObserver } from '../services/NavigationService';
+import { MoveTreeService } from '../services/MoveTreeService';
+import { GameManager } from '../services/GameManager';
+import { ShortcutService } from '../services/ShortcutService';
 
 describe('NavigationService', () => {
     let navigationService: NavigationService;
@@ -134,6 +137,334 @@ describe('NavigationService', () => {
         });
     });
 
+    describe('Move Tree Navigation', () => {
+        it('should move the cursor of its move tree', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                { san: 'e4', fen: 'fen-1', variations: [] },
+                { san: 'e5', fen: 'fen-2', variations: [] }
+            ]);
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+            boardNavigation.addObserver(mockObserver);
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'End' }));
+            expect(moveTree.getCurrentMoveIndex()).toBe(1);
+
+            boardNavigation.execute('prev');
+            expect(moveTree.getCurrentMoveIndex()).toBe(0);
+            expect(mockCommandFn).toHaveBeenLastCalledWith('prev');
+
+            boardNavigation.cleanup();
+        });
+
+        it('should edit the move tree at the cursor', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                { san: 'e4', fen: 'fen-1', variations: [[{ san: 'd4', fen: 'fen-2', variations: [] }]] }
+            ]);
+            moveTree.enterVariation();
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', altKey: true }));
+            expect(moveTree.getMoves().map(move => move.san)).toEqual(['d4']);
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Delete' }));
+            expect(moveTree.getMoves()).toHaveLength(1);
+
+            moveTree.goToMove(-1);
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', altKey: true }));
+            expect(moveTree.getCurrentMoveIndex()).toBe(-1);
+
+            boardNavigation.cleanup();
+        });
+
+        it('should undo and redo edits of its game', () => {
+            const gameManager = new GameManager();
+            const boardNavigation = new NavigationService(gameManager);
+            gameManager.makeMove('e2', 'e4');
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }));
+            expect(gameManager.getMoveHistory()).toEqual([]);
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'y', ctrlKey: true }));
+            expect(gameManager.getMoveHistory().map(move => move.san)).toEqual(['e4']);
+
+            boardNavigation.cleanup();
+        });
+
+        it('should leave keys held with Cmd to the browser', () => {
+            const gameManager = new GameManager();
+            const boardNavigation = new NavigationService(gameManager);
+            gameManager.makeMove('e2', 'e4');
+
+            const copy = new KeyboardEvent('keydown', { key: 'c', metaKey: true, cancelable: true });
+            window.dispatchEvent(copy);
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft', metaKey: true }));
+
+            expect(copy.defaultPrevented).toBe(false);
+            expect(gameManager.getCurrentMoveIndex()).toBe(0);
+
+            boardNavigation.cleanup();
+        });
+
+        it('should enter and leave variations', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                { san: 'e4', fen: 'fen-1', variations: [[{ san: 'd4', fen: 'fen-2', variations: [] }]] }
+            ]);
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+            expect(moveTree.getCurrentNode().san).toBe('d4');
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+            expect(moveTree.getCurrentNode()).toBe(moveTree.getRoot());
+
+            boardNavigation.cleanup();
+        });
+
+        it('should offer the variations when the next move has alternatives', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                {
+                    san: 'e4',
+                    fen: 'fen-1',
+                    variations: [
+                        [{ san: 'd4', fen: 'fen-2', variations: [] }],
+                        [{ san: 'c4', fen: 'fen-3', variations: [] }]
+                    ]
+                }
+            ]);
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+            const onChoice = jest.fn();
+            boardNavigation.addObserver({ onNavigationCommand: jest.fn(), onVariationChoiceChange: onChoice });
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+            expect(moveTree.getCurrentNode()).toBe(moveTree.getRoot());
+            expect(boardNavigation.getVariationChoice()?.selectedIndex).toBe(0);
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+            expect(onChoice).toHaveBeenLastCalledWith(expect.objectContaining({ selectedIndex: 2 }));
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+            expect(moveTree.getCurrentNode().san).toBe('d4');
+            expect(onChoice).toHaveBeenLastCalledWith(null);
+
+            boardNavigation.cleanup();
+        });
+
+        it('should close the variation popup without moving', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                { san: 'e4', fen: 'fen-1', variations: [[{ san: 'd4', fen: 'fen-2', variations: [] }]] }
+            ]);
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+
+            boardNavigation.execute('next');
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+            expect(boardNavigation.getVariationChoice()).toBeNull();
+
+            boardNavigation.execute('next');
+            boardNavigation.execute('prev');
+            expect(boardNavigation.getVariationChoice()).toBeNull();
+            expect(moveTree.getCurrentNode()).toBe(moveTree.getRoot());
+
+            boardNavigation.execute('next');
+            moveTree.goToNode(moveTree.getRoot().children[1].id);
+            expect(boardNavigation.getVariationChoice()).toBeNull();
+
+            boardNavigation.cleanup();
+        });
+
+        it('should jump to the next branch point and back to the parent line', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                { san: 'e4', fen: 'fen-1', variations: [] },
+                { san: 'e5', fen: 'fen-2', variations: [] },
+                {
+                    san: 'Nf3',
+                    fen: 'fen-3',
+                    variations: [[
+                        { san: 'Bc4', fen: 'fen-4', variations: [] },
+                        { san: 'Nf6', fen: 'fen-5', variations: [] }
+                    ]]
+                }
+            ]);
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', ctrlKey: true }));
+            expect(moveTree.getCurrentNode().san).toBe('e5');
+
+            boardNavigation.execute('chooseVariation');
+            boardNavigation.execute('next');
+            boardNavigation.execute('next');
+            expect(moveTree.getCurrentNode().san).toBe('Nf6');
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowUp' }));
+            expect(moveTree.getCurrentNode().san).toBe('e5');
+
+            boardNavigation.cleanup();
+        });
+
+        it('should follow keys rebound in the shared key map', () => {
+            localStorage.clear();
+            const shortcuts = new ShortcutService(localStorage);
+            const boardNavigation = new NavigationService(null, shortcuts);
+            const onCommand = jest.fn();
+            boardNavigation.addObserver({ onNavigationCommand: onCommand });
+
+            shortcuts.assignShortcut('toggleEngine', { key: 'a' });
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+            expect(onCommand).toHaveBeenCalledWith('toggleEngine');
+
+            shortcuts.removeShortcut('flip', { key: 'f' });
+            onCommand.mockClear();
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: 'f' }));
+            expect(onCommand).not.toHaveBeenCalled();
+
+            boardNavigation.cleanup();
+        });
+
+        it('should leave keys to text fields', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                { san: 'e4', fen: 'fen-1', variations: [[{ san: 'd4', fen: 'fen-2', variations: [] }]] }
+            ]);
+            moveTree.enterVariation();
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+            const input = document.createElement('input');
+            document.body.appendChild(input);
+
+            input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Delete', bubbles: true }));
+            expect(moveTree.getMoves()[0].variations).toHaveLength(1);
+            input.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft', bubbles: true }));
+            expect(moveTree.getCurrentNode().san).toBe('d4');
+
+            input.remove();
+            boardNavigation.cleanup();
+        });
+    });
+
+    describe('Command Palette', () => {
+        it('should offer its commands with their keys', () => {
+            const boardNavigation = new NavigationService(new GameManager());
+            const onCommand = jest.fn();
+            boardNavigation.addObserver({ onNavigationCommand: onCommand });
+
+            const flip = boardNavigation.getCommands().find(command => command.id === 'flip')!;
+            expect(flip.label).toBe('Flip board');
+            expect(flip.shortcut).toBe('F');
+
+            flip.run();
+            expect(onCommand).toHaveBeenCalledWith('flip');
+            expect(boardNavigation.getCommands().some(command => command.id === 'commandPalette')).toBe(false);
+
+            boardNavigation.cleanup();
+        });
+
+        it('should offer to jump to each move once something is typed', () => {
+            const moveTree = new MoveTreeService();
+            moveTree.setMoves([
+                { san: 'e4', fen: 'fen-1', variations: [] },
+                { san: 'Nf6', fen: 'fen-2', variations: [[{ san: 'e5', fen: 'fen-3', variations: [] }]] }
+            ]);
+            const boardNavigation = new NavigationService(new GameManager(moveTree));
+
+            expect(boardNavigation.getCommands().some(command => command.category === 'Move')).toBe(false);
+
+            const moves = boardNavigation.getCommands('1...').filter(command => command.category === 'Move');
+            expect(moves.map(command => command.label)).toEqual(['Go to 1.e4', 'Go to 1...Nf6', 'Go to 1...e5']);
+
+            moves[2].run();
+            expect(moveTree.getCurrentNode().san).toBe('e5');
+
+            boardNavigation.cleanup();
+        });
+    });
+
+    describe('Autoplay', () => {
+        let gameManager: GameManager;
+        let boardNavigation: NavigationService;
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+            gameManager = new GameManager();
+            boardNavigation = new NavigationService(gameManager);
+            boardNavigation.addObserver(mockObserver);
+        });
+
+        afterEach(() => {
+            boardNavigation.cleanup();
+            jest.useRealTimers();
+            jest.restoreAllMocks();
+        });
+
+        it('should step through the line and pause at its end', () => {
+            gameManager.loadPGN('1. e4 (1. d4 d5) 1... e5 2. Nf3 *');
+
+            window.dispatchEvent(new KeyboardEvent('keydown', { key: ' ' }));
+            expect(boardNavigation.isPlaying()).toBe(true);
+
+            jest.advanceTimersByTime(1500);
+            expect(gameManager.getMoveTree().getCurrentNode().san).toBe('e4');
+
+            jest.advanceTimersByTime(3000);
+            expect(gameManager.getMoveTree().getCurrentNode().san).toBe('Nf3');
+            expect(boardNavigation.isPlaying()).toBe(false);
+            expect(mockCommandFn).toHaveBeenLastCalledWith('pause');
+        });
+
+        it('should follow variations when asked to', () => {
+            gameManager.loadPGN('1. e4 (1. d4 d5) 1... e5 *');
+            boardNavigation.setAutoplaySettings({ followVariations: true, interval: 100 });
+
+            boardNavigation.execute('play');
+            const played: string[] = [];
+            for (let i = 0; i < 4; i++) {
+                jest.advanceTimersByTime(100);
+                played.push(gameManager.getMoveTree().getCurrentNode().san);
+            }
+
+            expect(played).toEqual(['e4', 'd4', 'd5', 'e5']);
+        });
+
+        it('should pace moves by the time spent on them', () => {
+            gameManager.loadPGN('[TimeControl "60"]\n\n1. e4 { [%clk 0:00:50] } e5 { [%clk 0:01:00] } *');
+            boardNavigation.setAutoplaySettings({ pace: 'clock', clockSpeed: 2 });
+
+            boardNavigation.execute('play');
+            jest.advanceTimersByTime(4999);
+            expect(gameManager.getCurrentMoveIndex()).toBe(-1);
+            jest.advanceTimersByTime(1);
+            expect(gameManager.getCurrentMoveIndex()).toBe(0);
+
+            // Instant moves still wait a moment
+            jest.advanceTimersByTime(299);
+            expect(gameManager.getCurrentMoveIndex()).toBe(0);
+            jest.advanceTimersByTime(1);
+            expect(gameManager.getCurrentMoveIndex()).toBe(1);
+        });
+
+        it('should pause and start again from the beginning at the end', () => {
+            gameManager.loadPGN('1. e4 e5 *');
+
+            boardNavigation.execute('play');
+            boardNavigation.execute('pause');
+            jest.advanceTimersByTime(5000);
+            expect(gameManager.getCurrentMoveIndex()).toBe(-1);
+
+            gameManager.goToMove(1);
+            boardNavigation.execute('togglePlay');
+            expect(gameManager.getCurrentMoveIndex()).toBe(-1);
+            expect(boardNavigation.isPlaying()).toBe(true);
+        });
+    });
+
     describe('Singleton Pattern', () => {
         it('should maintain a single instance', () => {
             const instance1 = NavigationService.getInstance();
@@ -0,0 +1,37 @@
+import { readCommentCommands, toggleShape, writeCommentCommands } from '../services/PgnCommentCommands';
+import { type BoardShape } from '../services/PgnService';
+
+describe('PgnCommentCommands', () => {
+  it('should read shapes and leave the remaining text', () => {
+    const { text, annotations } = readCommentCommands('Threat [%cal Rd8d1, Gxx] on the file [%csl Yd1]');
+
+    expect(text).toBe('Threat on the file');
+    expect(annotations.shapes).toEqual([
+      { color: 'R', from: 'd8', to: 'd1' },
+      { color: 'Y', from: 'd1' }
+    ]);
+  });
+
+  it('should write squares before arrows', () => {
+    const shapes: BoardShape[] = [
+      { color: 'B', from: 'a1', to: 'h8' },
+      { color: 'G', from: 'e4' }
+    ];
+
+    expect(writeCommentCommands({ shapes })).toBe('[%csl Ge4][%cal Ba1h8]');
+    expect(writeCommentCommands({})).toBe('');
+  });
+
+  it('should add, recolour and remove shapes', () => {
+    const arrow: BoardShape = { color: 'G', from: 'e2', to: 'e4' };
+
+    const added = toggleShape([], arrow);
+    expect(added).toEqual([arrow]);
+
+    const recoloured = toggleShape(added, { ...arrow, color: 'R' });
+    expect(recoloured).toEqual([{ ...arrow, color: 'R' }]);
+
+    expect(toggleShape(recoloured, { ...arrow, color: 'R' })).toEqual([]);
+    expect(toggleShape(added, { color: 'G', from: 'e2' })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { detectEncoding } from '../services/PgnEncoding';
+
+// Latin-1 style bytes: each character is one byte, as in the legacy code pages
+const singleByte = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+describe('PgnEncoding', () => {
+    describe('detectEncoding', () => {
+        it('should trust a byte order mark', () => {
+            expect(detectEncoding(Uint8Array.of(0xef, 0xbb, 0xbf, 0x5b))).toEqual({ encoding: 'utf-8', reason: 'bom' });
+            expect(detectEncoding(Uint8Array.of(0xff, 0xfe, 0x5b, 0x00))).toEqual({ encoding: 'utf-16le', reason: 'bom' });
+            expect(detectEncoding(Uint8Array.of(0xfe, 0xff, 0x00, 0x5b))).toEqual({ encoding: 'utf-16be', reason: 'bom' });
+        });
+
+        it('should detect valid UTF-8', () => {
+            const bytes = new TextEncoder().encode('[White "Hübner, Robert"]\n[Black "Ljubojević, Ljubomir"]');
+
+            expect(detectEncoding(bytes)).toEqual({ encoding: 'utf-8', reason: 'utf-8' });
+        });
+
+        it('should not fail on a character cut off at the end of the sample', () => {
+            const bytes = new TextEncoder().encode('[White "Hübner"]');
+            const cut = bytes.subarray(0, bytes.indexOf(0xc3) + 1);
+
+            expect(detectEncoding(cut).encoding).toBe('utf-8');
+        });
+
+        it('should fall back to Windows-1252 for Western names', () => {
+            expect(detectEncoding(singleByte('[White "H\xfcbner, Robert"]'))).toEqual({ encoding: 'windows-1252', reason: 'legacy' });
+        });
+
+        it('should choose Windows-1250 when it turns symbols into letters', () => {
+            // "Bartłomiej" and "Piątek" written in Windows-1250
+            const bytes = singleByte('[White "Bart\xb3omiej"]\n[Black "Pi\xb9tek"]');
+
+            expect(detectEncoding(bytes)).toEqual({ encoding: 'windows-1250', reason: 'legacy' });
+        });
+    });
+});
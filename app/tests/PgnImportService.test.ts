@@ -0,0 +1,167 @@
+import { Blob as NodeBlob } from 'buffer';
+import { PgnImportService, type PgnImportProgress } from '../services/PgnImportService';
+import { PgnGameSplitter, type PgnGameText } from '../services/PgnGameSplitter';
+import { PgnService } from '../services/PgnService';
+
+const makeGame = (round: number, movetext = '1. e4 e5 2. Nf3 Nc6 *') => `[Event "Weekly Update"]
+[Round "${round}"]
+[White "Player ${round}"]
+[Black "Opponent ${round}"]
+[Result "*"]
+
+${movetext}
+`;
+
+const makeFile = (text: string) => new NodeBlob([text]) as unknown as Blob;
+
+describe('PgnGameSplitter', () => {
+  it('should split games across chunk boundaries', () => {
+    const text = [makeGame(1), makeGame(2), makeGame(3)].join('\n');
+    const splitter = new PgnGameSplitter();
+    const games: PgnGameText[] = [];
+
+    for (let i = 0; i < text.length; i += 7) {
+      games.push(...splitter.push(text.slice(i, i + 7)));
+    }
+    games.push(...splitter.flush());
+
+    expect(games).toHaveLength(3);
+    expect(games[1]).toEqual({ text: makeGame(2).trim(), line: 9, number: 2 });
+  });
+
+  it('should keep the last game until flushed', () => {
+    const splitter = new PgnGameSplitter();
+
+    expect(splitter.push(makeGame(1))).toEqual([]);
+    expect(splitter.flush()).toEqual([{ text: makeGame(1).trim(), line: 1, number: 1 }]);
+  });
+
+  it('should handle Windows line endings and drop games without moves', () => {
+    const splitter = new PgnGameSplitter();
+    const text = `[Event "Empty"]\r\n\r\n[Event "Real"]\r\n\r\n1. d4 *\r\n`;
+
+    const games = [...splitter.push(text), ...splitter.flush()];
+
+    expect(games).toEqual([{ text: '[Event "Real"]\n\n1. d4 *', line: 3, number: 1 }]);
+  });
+
+  it('should not split a game at comment lines that start with "["', () => {
+    const splitter = new PgnGameSplitter();
+    const text = [
+      makeGame(1, '1. e4 {see\n[%clk 0:01:00]} e5 2. Nf3 { [%csl Gd4]\n[%cal Ge2e4] } *'),
+      makeGame(2, '1. d4 d5 ; a { in a line comment opens nothing\n*'),
+      makeGame(3)
+    ].join('\n');
+
+    const games = [...splitter.push(text), ...splitter.flush()];
+
+    expect(games.map(game => game.line)).toEqual([1, 11, 20]);
+    expect(PgnService.getInstance().parseGames(games).diagnostics).toEqual([]);
+  });
+});
+
+describe('PgnImportService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should import games read in small chunks', async () => {
+    const text = Array.from({ length: 25 }, (_, i) => makeGame(i + 1)).join('\n');
+    const importer = new PgnImportService({ chunkSize: 64, batchSize: 10 });
+
+    const result = await importer.importFile(makeFile(text));
+
+    expect(result.success).toBe(true);
+    expect(result.cancelled).toBe(false);
+    expect(result.games).toHaveLength(25);
+    expect(result.games[24].headers.Round).toBe('25');
+    expect(result.games[0].moves.map(m => m.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+  });
+
+  it('should decode multi-byte characters split between chunks', async () => {
+    const text = makeGame(1).replace('Player 1', 'Müller Ñúñez');
+    const importer = new PgnImportService({ chunkSize: 3 });
+
+    const result = await importer.importFile(makeFile(text));
+
+    expect(result.games[0].headers.White).toBe('Müller Ñúñez');
+  });
+
+  it('should decode legacy encodings', async () => {
+    const text = makeGame(1).replace('Player 1', 'H\xfcbner');
+    const bytes = Uint8Array.from(text, char => char.charCodeAt(0));
+    const importer = new PgnImportService();
+
+    const detected = await importer.importFile(new NodeBlob([bytes]) as unknown as Blob);
+    expect(detected.encoding).toBe('windows-1252');
+    expect(detected.games[0].headers.White).toBe('Hübner');
+
+    const forced = await importer.importFile(new NodeBlob([bytes]) as unknown as Blob, { encoding: 'utf-8' });
+    expect(forced.encoding).toBe('utf-8');
+    expect(forced.games[0].headers.White).toBe('H\ufffdbner');
+  });
+
+  it('should strip a UTF-8 byte order mark', async () => {
+    const result = await new PgnImportService().importFile(makeFile(`\ufeff${makeGame(1)}`));
+
+    expect(result.encoding).toBe('utf-8');
+    expect(result.games[0].pgn.startsWith('[Event')).toBe(true);
+  });
+
+  it('should report progress and collect errors without stopping', async () => {
+    const text = [makeGame(1), makeGame(2, '1. e4 e5 2. Ke3 *'), makeGame(3)].join('\n');
+    const importer = new PgnImportService({ chunkSize: 100, batchSize: 1 });
+    const updates: PgnImportProgress[] = [];
+
+    const result = await importer.importFile(makeFile(text), {
+      onProgress: progress => updates.push(progress)
+    });
+
+    expect(result.games).toHaveLength(2);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ gameNumber: 2, line: 15, column: 13, message: 'Illegal move "Ke3"' })
+    ]);
+    expect(result.diagnostics[0].partialGame?.moves.map(m => m.san)).toEqual(['e4', 'e5']);
+
+    const last = updates[updates.length - 1];
+    expect(last).toEqual({ bytesRead: text.length, totalBytes: text.length, gamesParsed: 2, errors: 1 });
+    expect(updates.map(u => u.bytesRead)).toEqual([...updates.map(u => u.bytesRead)].sort((a, b) => a - b));
+  });
+
+  it('should stop reading when cancelled', async () => {
+    const text = Array.from({ length: 50 }, (_, i) => makeGame(i + 1)).join('\n');
+    const importer = new PgnImportService({ chunkSize: 64, batchSize: 5 });
+    const controller = new AbortController();
+
+    const result = await importer.importFile(makeFile(text), {
+      signal: controller.signal,
+      onProgress: progress => {
+        if (progress.gamesParsed >= 10) controller.abort();
+      }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.cancelled).toBe(true);
+    expect(result.games.length).toBeGreaterThanOrEqual(10);
+    expect(result.games.length).toBeLessThan(50);
+  });
+
+  it('should terminate the parser when done', async () => {
+    const terminate = jest.fn();
+    const importer = new PgnImportService({
+      createParser: () => ({
+        parse: async (gameTexts) => PgnService.getInstance().parseGames(gameTexts),
+        terminate
+      })
+    });
+
+    await importer.importFile(makeFile(makeGame(1)));
+
+    expect(terminate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,166 @@
+import { PgnMovetextParser, PgnParseError, toggleNag, tokenizeMovetext } from '../services/PgnParser';
+
+describe('PgnParser', () => {
+    describe('tokenizeMovetext', () => {
+        it('should split movetext into typed tokens', () => {
+            const tokens = tokenizeMovetext('1. e4 e5!? {A comment} (1... c5 $1) 2.Nf3 1-0');
+
+            expect(tokens.map(t => [t.type, t.value])).toEqual([
+                ['moveNumber', '1.'],
+                ['move', 'e4'],
+                ['move', 'e5'],
+                ['annotation', '!?'],
+                ['comment', 'A comment'],
+                ['variationStart', '('],
+                ['moveNumber', '1...'],
+                ['move', 'c5'],
+                ['nag', '$1'],
+                ['variationEnd', ')'],
+                ['moveNumber', '2.'],
+                ['move', 'Nf3'],
+                ['result', '1-0']
+            ]);
+        });
+
+        it('should track line and column of each token', () => {
+            const tokens = tokenizeMovetext('1. e4\n{multi\nline} e5');
+
+            expect(tokens[1]).toMatchObject({ value: 'e4', line: 1, column: 4 });
+            expect(tokens[2]).toMatchObject({ type: 'comment', line: 2, column: 1 });
+            expect(tokens[3]).toMatchObject({ value: 'e5', line: 3, column: 7 });
+        });
+
+        it('should skip escaped lines and read rest-of-line comments', () => {
+            const tokens = tokenizeMovetext('% escaped line\n1. e4 ; note\ne5');
+
+            expect(tokens.map(t => t.value)).toEqual(['1.', 'e4', ' note', 'e5']);
+        });
+
+        it('should throw on an unterminated comment', () => {
+            expect(() => tokenizeMovetext('1. e4 {never closed')).toThrow('Unterminated comment');
+        });
+    });
+
+    describe('PgnMovetextParser', () => {
+        let parser: PgnMovetextParser;
+
+        beforeEach(() => {
+            parser = new PgnMovetextParser();
+        });
+
+        it('should stop at the game termination marker', () => {
+            const { moves } = parser.parse('1. e4 e5 1/2-1/2');
+            expect(moves.map(m => m.san)).toEqual(['e4', 'e5']);
+        });
+
+        it('should keep comments before and after moves', () => {
+            const { moves, comment } = parser.parse('{Intro} 1. e4 {Best by test}\n{really} e5 (1... c5 {Sicilian}) ({Or} 1... e6) *');
+
+            expect(comment).toBe('Intro');
+            expect(moves[0].commentAfter).toBe('Best by test really');
+            expect(moves[0].commentBefore).toBeUndefined();
+            expect(moves[1].variations[0][0].commentAfter).toBe('Sicilian');
+            expect(moves[1].variations[1][0].commentBefore).toBe('Or');
+        });
+
+        it('should collect NAGs and convert suffix annotations', () => {
+            const { moves } = parser.parse('1. e4!? $14 e5?? 2. Nf3 $1 $18 *');
+
+            expect(moves[0].nags).toEqual([5, 14]);
+            expect(moves[1].nags).toEqual([4]);
+            expect(moves[2].nags).toEqual([1, 18]);
+        });
+
+        it('should not add annotation fields to plain moves', () => {
+            const { moves, comment } = parser.parse('1. e4 e5 *');
+
+            expect(comment).toBeUndefined();
+            expect(moves[0]).toEqual({ san: 'e4', fen: moves[0].fen, variations: [] });
+        });
+
+        it('should throw on unbalanced parentheses', () => {
+            expect(() => parser.parse('1. e4 (1. d4 e5')).toThrow('Unterminated variation');
+            expect(() => parser.parse('1. e4 ) e5')).toThrow('Unmatched ")"');
+        });
+
+        it('should throw on a variation before any move', () => {
+            expect(() => parser.parse('(1. d4) 1. e4')).toThrow('Variation without a preceding move');
+        });
+
+        it('should report the location of illegal moves', () => {
+            expect(() => parser.parse('1. e4 e5\n2. Ke3')).toThrow('Illegal move "Ke3" at line 2, column 4');
+        });
+
+        it('should keep the mainline read before an error', () => {
+            let error: unknown;
+            try {
+                parser.parse('1. e4 e5 (1... c5 2. Qxf7) 2. Nf3', undefined, 10);
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(PgnParseError);
+            expect(error).toMatchObject({ reason: 'Illegal move "Qxf7"', line: 10, column: 22, token: 'Qxf7' });
+            expect((error as PgnParseError).fen).toBe('rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2');
+            expect((error as PgnParseError).partialMoves.map(m => m.san)).toEqual(['e4', 'e5']);
+        });
+    });
+
+    describe('parse modes', () => {
+        it('should normalize non-standard notation in lenient mode', () => {
+            const parser = new PgnMovetextParser('lenient');
+            const { moves, fixes } = parser.parse('1. e4 e5 2. ♘f3 nc6 3. Bc4 Bc5 4. 0-0 *');
+
+            expect(moves.map(m => m.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Bc5', 'O-O']);
+            expect(fixes).toEqual([
+                { line: 1, column: 13, original: '♘f3', replacement: 'Nf3', message: 'figurine notation' },
+                { line: 1, column: 17, original: 'nc6', replacement: 'Nc6', message: 'lowercase piece letter' },
+                { line: 1, column: 35, original: '0-0', replacement: 'O-O', message: 'castling written with zeros' }
+            ]);
+        });
+
+        it('should read promotions without "=" and tell a lowercase bishop from the b-pawn', () => {
+            const parser = new PgnMovetextParser('lenient');
+            const promotion = parser.parse('1. e8Q *', '7k/4P3/8/8/8/8/8/4K3 w - - 0 1');
+            expect(promotion.moves[0].san).toBe('e8=Q+');
+            expect(promotion.fixes[0].message).toBe('promotion without "="');
+
+            const pawnCapture = parser.parse('1. bxc3 *', '4k3/8/8/8/8/2p5/1P6/4K3 w - - 0 1');
+            expect(pawnCapture.moves[0].san).toBe('bxc3');
+            expect(pawnCapture.fixes).toEqual([]);
+
+            const bishop = parser.parse('1. bc4 *', '4k3/8/8/8/8/8/8/4KB2 w - - 0 1');
+            expect(bishop.moves[0].san).toBe('Bc4');
+            expect(bishop.fixes[0].message).toBe('lowercase piece letter');
+        });
+
+        it('should accept standard SAN only in strict mode', () => {
+            const parser = new PgnMovetextParser('strict');
+
+            expect(parser.parse('1. e4 e5 2. Nf3 *').fixes).toEqual([]);
+            expect(() => parser.parse('1. e4 e5 2. 0-0')).toThrow('Illegal move "0-0"');
+            expect(() => parser.parse('1. e8Q', '7k/4P3/8/8/8/8/8/4K3 w - - 0 1')).toThrow('Illegal move "e8Q"');
+            expect(() => parser.parse('1. e2e4')).toThrow('Illegal move "e2e4"');
+        });
+
+        it('should return the termination marker', () => {
+            const parser = new PgnMovetextParser();
+
+            expect(parser.parse('1. e4 e5 1-0').result).toBe('1-0');
+            expect(parser.parse('1. e4 e5').result).toBeUndefined();
+        });
+    });
+
+    describe('toggleNag', () => {
+        it('should add and remove NAGs', () => {
+            expect(toggleNag([], 1)).toEqual([1]);
+            expect(toggleNag([1, 14], 1)).toEqual([14]);
+        });
+
+        it('should keep one move and one position assessment', () => {
+            expect(toggleNag([1, 14], 4)).toEqual([4, 14]);
+            expect(toggleNag([1, 14], 16)).toEqual([1, 16]);
+            expect(toggleNag([1, 146], 40)).toEqual([1, 40, 146]);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { PgnService } from '../services/PgnService';
+import { PgnSerializer } from '../services/PgnSerializer';
+
+describe('PgnSerializer', () => {
+    let pgnService: PgnService;
+    let serializer: PgnSerializer;
+
+    const annotatedPgn = `[Event "Club Lesson"]
+[Site "Chess Club"]
+[Date "2024.03.01"]
+[Round "2"]
+[White "Coach"]
+[Black "Student"]
+[Result "1-0"]
+[ECO "C60"]
+[Annotator "Coach"]
+
+{The Ruy Lopez, explained move by move.} 1. e4 e5 2. Nf3 Nc6 3. Bb5 $1 {Pinning
+the defender of e5 is not yet a threat.} a6 (3... Nf6 4. O-O (4. d3 {is the quiet
+alternative.}) 4... Nxe4) (3... f5?! {The Schliemann, sharp but dubious.} 4. Nc3)
+4. Ba4 Nf6 5. O-O $14 Be7 6. Re1 b5 7. Bb3 d6 8. c3 O-O 9. h3 {And now the
+classical main lines begin.} 1-0`;
+
+    beforeEach(() => {
+        pgnService = PgnService.getInstance();
+        serializer = new PgnSerializer();
+    });
+
+    const roundTrip = (pgnText: string) => {
+        const original = pgnService.loadFromText(pgnText).games[0];
+        const exported = serializer.serialize(original);
+        const reparsed = pgnService.loadFromText(exported).games[0];
+        return { original, exported, reparsed };
+    };
+
+    describe('round trip', () => {
+        it('should keep moves, variations, comments and NAGs', () => {
+            const { original, reparsed } = roundTrip(annotatedPgn);
+
+            expect(reparsed.headers).toEqual(original.headers);
+            expect(reparsed.comment).toEqual(original.comment);
+            expect(reparsed.moves).toEqual(original.moves);
+        });
+
+        it('should be stable when serialized twice', () => {
+            const { exported, reparsed } = roundTrip(annotatedPgn);
+            expect(serializer.serialize(reparsed)).toBe(exported);
+        });
+
+        it('should round trip a game without annotations', () => {
+            const { original, reparsed } = roundTrip(`[Event "Plain"]
+[Result "0-1"]
+
+1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Be7 0-1`);
+
+            expect(reparsed.moves).toEqual(original.moves);
+            expect(reparsed.headers).toEqual(original.headers);
+        });
+    });
+
+    describe('export format', () => {
+        it('should write the Seven Tag Roster first and other tags sorted', () => {
+            const { exported } = roundTrip(annotatedPgn);
+            const tagNames = exported
+                .split('\n')
+                .filter(line => line.startsWith('['))
+                .map(line => line.slice(1, line.indexOf(' ')));
+
+            expect(tagNames).toEqual(['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result', 'Annotator', 'ECO']);
+        });
+
+        it('should fill missing roster tags and escape tag values', () => {
+            const exported = serializer.serialize({
+                pgn: '',
+                headers: { White: 'Say "Hi"', Event: 'C:\\Games' },
+                moves: []
+            });
+
+            expect(exported).toBe(`[Event "C:\\\\Games"]
+[Site "?"]
+[Date "????.??.??"]
+[Round "?"]
+[White "Say \\"Hi\\""]
+[Black "?"]
+[Result "*"]
+
+*
+`);
+        });
+
+        it('should write roster tags missing from the file as unknown', () => {
+            const { original, exported } = roundTrip('1. e4 e5 *');
+
+            expect(original.headers.White).toBe('Unknown');
+            expect(exported).toContain('[Date "????.??.??"]');
+            expect(exported).toContain('[White "?"]');
+            expect(exported).not.toContain('Unknown');
+        });
+
+        it('should write SetUp before FEN', () => {
+            const { exported } = roundTrip(`[Event "Study"]
+[FEN "8/8/8/4k3/8/8/4P3/4K3 w - - 0 1"]
+[Annotator "Coach"]
+
+1. Kd2 *`);
+            const tagNames = exported
+                .split('\n')
+                .filter(line => line.startsWith('['))
+                .map(line => line.slice(1, line.indexOf(' ')));
+
+            expect(tagNames.slice(7)).toEqual(['SetUp', 'FEN', 'Annotator']);
+        });
+
+        it('should wrap movetext at 80 columns', () => {
+            const { exported } = roundTrip(annotatedPgn);
+
+            exported.split('\n').forEach(line => {
+                expect(line.length).toBeLessThanOrEqual(80);
+            });
+        });
+
+        it('should number moves and variations correctly', () => {
+            const { exported } = roundTrip(annotatedPgn);
+            const movetext = exported.slice(exported.indexOf('\n\n') + 2).replace(/\n/g, ' ');
+
+            expect(movetext).toContain('3. Bb5 $1 {Pinning the defender of e5 is not yet a threat.} 3... a6');
+            expect(movetext).toContain('(3... Nf6 4. O-O (4. d3 {is the quiet alternative.}) 4... Nxe4)');
+            expect(movetext).toContain('(3... f5 $6 {The Schliemann, sharp but dubious.} 4. Nc3) 4. Ba4');
+            expect(movetext.trim().endsWith('9. h3 {And now the classical main lines begin.} 1-0')).toBe(true);
+        });
+    });
+});
@@ -131,6 +131,12 @@ describe('PgnService', () => {
             });
         });
 
+        it('should compose accented letters in header values', () => {
+            const result = pgnService.loadFromText('[White "Hu\u0308bner"]\n\n1. e4 *');
+
+            expect(result.games[0].headers.White).toBe('H\u00fcbner');
+        });
+
         it('should handle empty variations array', () => {
             const pgnText = `[Event "Test Game"]
 [White "Player 1"]
@@ -253,4 +259,336 @@ Kg1 h2+ 47. Kh1 Rf2 48. g4 fxg4 49. f5 e3 50. f6 e2 51. f7 e1=Q# 0-1`;
             expect(finalPosition).toContain('8/5P1k/8/7p/6p1/8/4pr1p/7K');
         });
     });
+
+    describe('variations', () => {
+        it('should attach a variation to the move it replaces', () => {
+            const pgnText = `[Event "Variation Test"]
+[Result "*"]
+
+1. e4 e5 (1... c5 2. Nf3) 2. Nf3 *`;
+
+            const result = pgnService.loadFromText(pgnText);
+
+            expect(result.success).toBe(true);
+            const moves = result.games[0].moves;
+            expect(moves.map(m => m.san)).toEqual(['e4', 'e5', 'Nf3']);
+            expect(moves[1].variations.length).toBe(1);
+
+            const [c5, nf3] = moves[1].variations[0];
+            expect(c5.san).toBe('c5');
+            expect(c5.fen.split(' ')[0]).toBe('rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR');
+            expect(nf3.san).toBe('Nf3');
+            expect(nf3.fen.split(' ')[0]).toBe('rnbqkbnr/pp1ppppp/8/2p5/4P3/5N2/PPPP1PPP/RNBQKB1R');
+        });
+
+        it('should parse nested and sibling variations', () => {
+            const pgnText = `[Event "Nested Test"]
+[Result "*"]
+
+1. d4 (1. e4 e5 (1... c5 2. Nf3 (2. c3) d6) 2. Nf3) (1. c4) 1... d5 *`;
+
+            const result = pgnService.loadFromText(pgnText);
+
+            expect(result.success).toBe(true);
+            const moves = result.games[0].moves;
+            expect(moves.map(m => m.san)).toEqual(['d4', 'd5']);
+            expect(moves[0].variations.map(v => v.map(m => m.san))).toEqual([
+                ['e4', 'e5', 'Nf3'],
+                ['c4']
+            ]);
+
+            const sicilian = moves[0].variations[0][1].variations[0];
+            expect(sicilian.map(m => m.san)).toEqual(['c5', 'Nf3', 'd6']);
+            expect(sicilian[1].variations[0][0].san).toBe('c3');
+            expect(sicilian[1].variations[0][0].fen.split(' ')[0]).toBe('rnbqkbnr/pp1ppppp/8/2p5/4P3/2P5/PP1P1PPP/RNBQKBNR');
+        });
+
+        it('should keep comments, NAGs and annotations between moves', () => {
+            const pgnText = `[Event "Annotated"]
+[Result "1-0"]
+
+{Intro} 1. e4! $1 e5 ; line comment
+2. Nf3?! {Hmm} (2. f4 {Gambit}) 2... Nc6 1-0`;
+
+            const result = pgnService.loadFromText(pgnText);
+
+            expect(result.success).toBe(true);
+            const moves = result.games[0].moves;
+            expect(moves.map(m => m.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+            expect(moves[2].variations[0][0].san).toBe('f4');
+
+            expect(result.games[0].comment).toBe('Intro');
+            expect(moves[0].nags).toEqual([1]);
+            expect(moves[1].commentAfter).toBe('line comment');
+            expect(moves[2].nags).toEqual([6]);
+            expect(moves[2].commentAfter).toBe('Hmm');
+            expect(moves[2].variations[0][0].commentAfter).toBe('Gambit');
+        });
+
+        it('should end the tag section at the first line that is not a tag pair', () => {
+            const game = pgnService.parseGame(`[Event "Wrapped"]
+1. e4 {Centre
+[%csl Gd4]} e5 *`);
+
+            expect(game?.headers.Event).toBe('Wrapped');
+            expect(game?.moves.map(m => m.san)).toEqual(['e4', 'e5']);
+            expect(game?.moves[0].shapes).toEqual([{ color: 'G', from: 'd4' }]);
+
+            // A comment command is movetext, not a tag to skip
+            expect(() => pgnService.parseGame('[Event "Fragment"]\n[%clk 0:01:00]} 1. e4 *'))
+                .toThrow('Unexpected character "[" at line 2, column 1');
+        });
+
+        it('should reject games with an illegal move inside a variation', () => {
+            const pgnText = `[Event "Broken"]
+[Result "*"]
+
+1. e4 e5 (1... Ke7 2. Qh5) 2. Nf3 *`;
+
+            const result = pgnService.loadFromText(pgnText);
+
+            expect(result.success).toBe(false);
+            expect(result.games).toEqual([]);
+        });
+    });
+
+    describe('custom start position', () => {
+        const studyPgn = `[Event "Endgame Study"]
+[SetUp "1"]
+[FEN "8/8/8/4k3/8/8/4P3/4K3 b - - 0 40"]
+[Result "*"]
+
+40... Kd5 (40... Ke4 41. Kf2) 41. Kd2 Ke4 *`;
+
+        it('should parse moves from the FEN tag position', () => {
+            const result = pgnService.loadFromText(studyPgn);
+
+            expect(result.success).toBe(true);
+            const game = result.games[0];
+            expect(game.startFen).toBe('8/8/8/4k3/8/8/4P3/4K3 b - - 0 40');
+            expect(game.moves.map(m => m.san)).toEqual(['Kd5', 'Kd2', 'Ke4']);
+            expect(game.moves[0].fen).toBe('8/8/8/3k4/8/8/4P3/4K3 w - - 1 41');
+            expect(game.moves[0].variations[0].map(m => m.san)).toEqual(['Ke4', 'Kf2']);
+        });
+
+        it('should load a position without moves', () => {
+            const result = pgnService.loadFromText(`[Event "Puzzle"]
+[SetUp "1"]
+[FEN "6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1"]
+
+*
+
+[Event "Broken Puzzle"]
+[SetUp "1"]
+[FEN "6k1/5ppp/8/8/8/8/5PPP/3R2K1 x - - 0 1"]
+
+*`);
+
+            expect(result.success).toBe(true);
+            expect(result.games).toHaveLength(1);
+            expect(result.games[0].moves).toEqual([]);
+            expect(result.games[0].startFen).toBe('6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1');
+            expect(result.diagnostics).toHaveLength(1);
+            expect(result.diagnostics[0]).toMatchObject({ gameNumber: 2, line: 9 });
+            expect(result.diagnostics[0].message).toMatch(/^Invalid FEN tag/);
+        });
+
+        it('should default to the standard start position', () => {
+            const result = pgnService.loadFromText('1. e4 e5 *');
+            expect(result.games[0].startFen).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+        });
+
+        it('should reject games with an invalid FEN tag', () => {
+            const result = pgnService.loadFromText(`[Event "Broken Setup"]
+[SetUp "1"]
+[FEN "not a fen"]
+
+1. e4 *`);
+
+            expect(result.success).toBe(false);
+        });
+
+        it('should write SetUp and FEN tags when exporting', () => {
+            const game = pgnService.loadFromText(studyPgn).games[0];
+            const exported = pgnService.toPgn(game);
+
+            expect(exported).toContain('[FEN "8/8/8/4k3/8/8/4P3/4K3 b - - 0 40"]');
+            expect(exported).toContain('[SetUp "1"]');
+            expect(exported).toContain('40... Kd5 (40... Ke4 41. Kf2) 41. Kd2 Ke4 *');
+
+            const reparsed = pgnService.loadFromText(exported).games[0];
+            expect(reparsed.moves).toEqual(game.moves);
+        });
+    });
+
+    describe('diagnostics', () => {
+        const databasePgn = `[Event "Club Championship"]
+[White "Alpha"]
+[Black "Beta"]
+[Result "1-0"]
+
+1. e4 e5 2. Nf3 Nc6 1-0
+
+[Event "Club Championship"]
+[White "Gamma"]
+[Black "Delta"]
+[Result "*"]
+
+1. d4 d5 2. c4 e6
+3. Nc3 Nf6 4. Bxf7 *
+
+[Event "Club Championship"]
+[White "Epsilon"]
+[Black "Zeta"]
+[Result "*"]
+
+1. c4 {unclosed comment *`;
+
+        it('should report where each broken game fails', () => {
+            const result = pgnService.loadFromText(databasePgn);
+
+            expect(result.success).toBe(true);
+            expect(result.games).toHaveLength(1);
+            expect(result.diagnostics).toHaveLength(2);
+
+            const [illegalMove, badComment] = result.diagnostics;
+            expect(illegalMove).toMatchObject({
+                gameNumber: 2,
+                line: 14,
+                column: 15,
+                message: 'Illegal move "Bxf7"',
+                token: 'Bxf7',
+                fen: 'rnbqkb1r/ppp2ppp/4pn2/3p4/2PP4/2N5/PP2PPPP/R1BQKBNR w KQkq - 2 4',
+                gameLine: 8,
+                headers: expect.objectContaining({ White: 'Gamma', Black: 'Delta' })
+            });
+            expect(badComment).toMatchObject({ gameNumber: 3, line: 21, column: 7, message: 'Unterminated comment' });
+        });
+
+        it('should keep the moves read before the error as a partial game', () => {
+            const result = pgnService.loadFromText(databasePgn);
+            const partialGame = result.diagnostics[0].partialGame;
+
+            expect(partialGame?.moves.map(m => m.san)).toEqual(['d4', 'd5', 'c4', 'e6', 'Nc3', 'Nf6']);
+            expect(partialGame?.headers.White).toBe('Gamma');
+            expect(result.diagnostics[1].partialGame).toBeUndefined();
+        });
+
+        it('should point at the FEN tag when it is invalid', () => {
+            const result = pgnService.loadFromText(`[Event "Broken Setup"]
+[SetUp "1"]
+[FEN "not a fen"]
+
+1. e4 *`);
+
+            expect(result.diagnostics[0]).toMatchObject({ line: 3, token: 'not a fen' });
+            expect(result.diagnostics[0].message).toContain('Invalid FEN tag');
+        });
+    });
+
+    describe('lenient and strict modes', () => {
+        const messyPgn = `[Event "Club \\"Winter\\" Open"]
+[Site "The "Old" Pub"]
+[White "Scorer"]
+[Black "Sheet"]
+[Result "1-0"]
+
+1. e4 e5 2. ♘f3 nc6 3. Bc4 Bc5 4. 0-0`;
+
+        it('should read escaped quotes in tag values', () => {
+            const result = pgnService.loadFromText(messyPgn);
+
+            expect(result.games[0].headers.Event).toBe('Club "Winter" Open');
+        });
+
+        it('should load messy games in lenient mode and record each fix', () => {
+            const result = pgnService.loadFromText(messyPgn);
+
+            expect(result.success).toBe(true);
+            const game = result.games[0];
+            expect(game.headers.Site).toBe('The "Old" Pub');
+            expect(game.moves.map(m => m.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Bc5', 'O-O']);
+            expect(game.fixes?.map(fix => [fix.line, fix.message])).toEqual([
+                [2, 'unescaped quotes in tag value'],
+                [7, 'figurine notation'],
+                [7, 'lowercase piece letter'],
+                [7, 'castling written with zeros'],
+                [7, 'missing result']
+            ]);
+            expect(game.fixes?.[0].replacement).toBe('[Site "The \\"Old\\" Pub"]');
+            expect(game.fixes?.[4].replacement).toBe('1-0');
+        });
+
+        it('should not record fixes for standard games', () => {
+            const result = pgnService.loadFromText('[Event "Clean"]\n\n1. e4 e5 *');
+
+            expect(result.games[0].fixes).toBeUndefined();
+        });
+
+        it('should report every deviation in strict mode', () => {
+            const result = pgnService.loadFromText(messyPgn, { mode: 'strict' });
+
+            expect(result.success).toBe(false);
+            expect(result.diagnostics[0]).toMatchObject({ line: 2, message: 'Malformed tag pair' });
+
+            const missingResult = pgnService.loadFromText('[Event "Clean"]\n\n1. e4 e5', { mode: 'strict' });
+            expect(missingResult.diagnostics[0]).toMatchObject({ line: 3, column: 9, message: 'Missing game termination marker' });
+        });
+
+        it('should validate with strict mode', () => {
+            expect(pgnService.validatePgn('[Event "Clean"]\n\n1. e4 e5 2. Nf3 *')).toBe(true);
+            expect(pgnService.validatePgn(messyPgn)).toBe(false);
+        });
+    });
+
+    describe('board shapes', () => {
+        const shapesPgn = `[Event "Shapes"]
+
+1. e4 { [%csl Gd5,Rf7][%cal Gg1f3,Rd1h5] Aims at f7 } e5 { [%tqu "Why?","","","","Nf6","",0] } *`;
+
+        it('should read arrows and squares into the move', () => {
+            const game = pgnService.loadFromText(shapesPgn).games[0];
+
+            expect(game.moves[0].shapes).toEqual([
+                { color: 'G', from: 'd5' },
+                { color: 'R', from: 'f7' },
+                { color: 'G', from: 'g1', to: 'f3' },
+                { color: 'R', from: 'd1', to: 'h5' }
+            ]);
+            expect(game.moves[0].commentAfter).toBe('Aims at f7');
+        });
+
+        it('should keep unknown commands in the comment', () => {
+            const game = pgnService.loadFromText(shapesPgn).games[0];
+
+            expect(game.moves[1].shapes).toBeUndefined();
+            expect(game.moves[1].commentAfter).toBe('[%tqu "Why?","","","","Nf6","",0]');
+        });
+
+        it('should read clocks, move times and evaluations', () => {
+            const game = pgnService.loadFromText(`[Event "Clocks"]
+
+1. e4 { [%eval 0.34] [%clk 0:03:00] } e5 { [%eval #-3,24] [%clk 0:02:58.5] [%emt 0:00:04] } *`).games[0];
+
+            expect(game.moves[0]).toMatchObject({ clock: 180, evaluation: { score: 0.34 } });
+            expect(game.moves[0].commentAfter).toBeUndefined();
+            expect(game.moves[1]).toMatchObject({ clock: 178.5, elapsedTime: 4, evaluation: { mate: -3, depth: 24 } });
+        });
+
+        it('should write clocks and evaluations back', () => {
+            const pgn = pgnService.toPgn(pgnService.loadFromText(`[Event "Clocks"]
+
+1. e4 { [%eval -0.5,20] [%clk 1:02:03] Solid } *`).games[0]);
+
+            expect(pgn).toContain('1. e4 {[%eval -0.5,20][%clk 1:02:03] Solid} *');
+        });
+
+        it('should write shapes back as comment commands', () => {
+            const game = pgnService.loadFromText(shapesPgn).games[0];
+            const pgn = pgnService.toPgn(game);
+
+            expect(pgn).toContain('1. e4 {[%csl Gd5,Rf7][%cal Gg1f3,Rd1h5] Aims at f7} 1... e5');
+            expect(pgnService.loadFromText(pgn).games[0].moves[0].shapes).toEqual(game.moves[0].shapes);
+        });
+    });
 }); 
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { Chess } from 'chess.js';
+import { PositionCache } from '../services/PositionCache';
+import { GameManager } from '../services/GameManager';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const E4_FEN = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+// Knights out and back again, long enough to show the cost of replaying
+const makeLongGame = (fullMoves: number) => {
+  const shuffle = ['Nf3', 'Nf6', 'Ng1', 'Ng8'];
+  const moves = Array.from({ length: fullMoves * 2 }, (_, i) => shuffle[i % shuffle.length]);
+  const movetext = moves.map((san, i) => (i % 2 === 0 ? `${i / 2 + 1}. ${san}` : san)).join(' ');
+  return `[Event "Long"]\n\n${movetext} *`;
+};
+
+// The previous navigation: replay every move from the start position
+const replayTo = (gameManager: GameManager, moveIndex: number) => {
+  const chess = new Chess(gameManager.getStartFen());
+  gameManager.getMoveHistory().slice(0, moveIndex + 1).forEach(move => chess.move(move.san));
+  return chess;
+};
+
+describe('PositionCache', () => {
+  it('should build positions from the stored FEN and reuse them', () => {
+    const cache = new PositionCache();
+
+    const position = cache.get({ id: 'node-1', fen: E4_FEN });
+
+    expect(position.fen()).toBe(E4_FEN);
+    expect(cache.get({ id: 'node-1', fen: E4_FEN })).toBe(position);
+  });
+
+  it('should drop the least recently used positions', () => {
+    const cache = new PositionCache(2);
+
+    cache.get({ id: 'a', fen: START_FEN });
+    cache.get({ id: 'b', fen: E4_FEN });
+    cache.get({ id: 'a', fen: START_FEN });
+    cache.get({ id: 'c', fen: E4_FEN });
+
+    expect(cache.size).toBe(2);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+  });
+
+  it('should rebuild positions when the headers change', () => {
+    const cache = new PositionCache();
+    const before = cache.get({ id: 'a', fen: START_FEN });
+
+    cache.setHeaders({ White: 'Carlsen' });
+    const after = cache.get({ id: 'a', fen: START_FEN });
+
+    expect(after).not.toBe(before);
+    expect(after.header().White).toBe('Carlsen');
+  });
+
+  describe('navigation in long games', () => {
+    let gameManager: GameManager;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      gameManager = new GameManager();
+      gameManager.loadPGN(makeLongGame(150));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should navigate without replaying moves', () => {
+      const move = jest.spyOn(Chess.prototype, 'move');
+
+      gameManager.goToMove(299);
+      gameManager.goToMove(150);
+      gameManager.goToMove(0);
+
+      expect(move).not.toHaveBeenCalled();
+      expect(gameManager.getCurrentPosition().fen()).toBe(gameManager.getMoveHistory()[0].fen);
+    });
+
+    it('should jump around a long game without replaying from the start', () => {
+      const targets = Array.from({ length: 60 }, (_, i) => (i * 97) % 300);
+      const move = jest.spyOn(Chess.prototype, 'move');
+
+      targets.forEach(index => {
+        gameManager.goToMove(index);
+        expect(gameManager.getCurrentPosition().fen()).toBe(gameManager.getMoveHistory()[index].fen);
+      });
+
+      expect(move).not.toHaveBeenCalled();
+      move.mockRestore();
+      expect(gameManager.getCurrentPosition().fen()).toBe(replayTo(gameManager, targets[targets.length - 1]).fen());
+    });
+  });
+});
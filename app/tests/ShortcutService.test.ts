@@ -0,0 +1,83 @@
+import { ShortcutService, SHORTCUTS_STORAGE_KEY, formatShortcut } from '../services/ShortcutService';
+
+const keyEvent = (key: string, modifiers: KeyboardEventInit = {}) => new KeyboardEvent('keydown', { key, ...modifiers });
+
+describe('ShortcutService', () => {
+  let shortcuts: ShortcutService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    shortcuts = new ShortcutService(localStorage);
+  });
+
+  it('should start with the default keys', () => {
+    expect(shortcuts.getCommandForEvent(keyEvent('ArrowLeft'))).toBe('prev');
+    expect(shortcuts.getCommandForEvent(keyEvent('Z', { ctrlKey: true, shiftKey: true }))).toBe('redo');
+    expect(shortcuts.getCommandForEvent(keyEvent('Shift', { shiftKey: true }))).toBeNull();
+    expect(shortcuts.getShortcutLabel('deleteRemainingMoves')).toBe('Ctrl+Del');
+  });
+
+  it('should leave keys held with Cmd to the browser', () => {
+    expect(shortcuts.getCommandForEvent(keyEvent('c', { metaKey: true }))).toBeNull();
+    expect(shortcuts.getCommandForEvent(keyEvent('f', { metaKey: true }))).toBeNull();
+
+    shortcuts.assignShortcut('flip', { key: 'f', metaKey: true });
+    expect(shortcuts.getCommandForEvent(keyEvent('f', { metaKey: true }))).toBe('flip');
+    expect(shortcuts.getShortcutLabel('flip')).toBe('F');
+    expect(formatShortcut({ key: 'f', metaKey: true })).toBe('Cmd+F');
+  });
+
+  it('should detect keys already used by another command', () => {
+    expect(shortcuts.findConflicts({ key: 'f' }, 'next')).toEqual(['flip']);
+    expect(shortcuts.findConflicts({ key: 'f' }, 'flip')).toEqual([]);
+    expect(shortcuts.findConflicts({ key: 'f', ctrlKey: true })).toEqual([]);
+  });
+
+  it('should move a key to the command it is assigned to', () => {
+    shortcuts.assignShortcut('next', { key: 'f' });
+
+    expect(shortcuts.getShortcuts('next')).toEqual([{ key: 'ArrowRight' }, { key: 'f' }]);
+    expect(shortcuts.getShortcuts('flip')).toEqual([]);
+    expect(shortcuts.getCommandForEvent(keyEvent('f'))).toBe('next');
+  });
+
+  it('should keep changes in local storage', () => {
+    shortcuts.removeShortcut('prev', { key: 'ArrowLeft' });
+    shortcuts.assignShortcut('prev', { key: 'j' });
+
+    const reloaded = new ShortcutService(localStorage);
+    expect(reloaded.getShortcuts('prev')).toEqual([{ key: 'j' }]);
+    expect(reloaded.isCustomized('prev')).toBe(true);
+    expect(reloaded.isCustomized('next')).toBe(false);
+
+    reloaded.resetShortcuts('prev');
+    expect(new ShortcutService(localStorage).getShortcuts('prev')).toEqual([{ key: 'ArrowLeft' }]);
+  });
+
+  it('should ignore unknown commands and malformed storage', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify({ gone: [{ key: 'g' }], next: 'n' }));
+    expect(new ShortcutService(localStorage).getShortcuts('next')).toEqual([{ key: 'ArrowRight' }]);
+
+    localStorage.setItem(SHORTCUTS_STORAGE_KEY, '{not json');
+    expect(new ShortcutService(localStorage).getShortcuts('first')).toEqual([{ key: 'Home' }]);
+    jest.restoreAllMocks();
+  });
+
+  it('should notify observers of changes', () => {
+    const onShortcutsChange = jest.fn();
+    shortcuts.addObserver({ onShortcutsChange });
+
+    shortcuts.assignShortcut('flip', { key: 'r' });
+    shortcuts.resetShortcuts();
+
+    expect(onShortcutsChange).toHaveBeenCalledTimes(2);
+    expect(shortcuts.getShortcuts('flip')).toEqual([{ key: 'f' }]);
+  });
+
+  it('should format shortcuts for display', () => {
+    expect(formatShortcut({ key: ' ' })).toBe('Space');
+    expect(formatShortcut({ key: 'ArrowUp', altKey: true })).toBe('Alt+↑');
+    expect(formatShortcut({ key: 'Z', ctrlKey: true, shiftKey: true })).toBe('Ctrl+Shift+Z');
+  });
+});
@@ -0,0 +1,292 @@
+import { UciEngine, type EngineTransport, type UciEngineObserver } from '../services/UciEngine';
+import {
+  ChessEngineService,
+  DEFAULT_ENGINE_SETTINGS,
+  formatScore,
+  getExpectedScore,
+  getThreatFen,
+  type AnalysisMove
+} from '../services/ChessEngineService';
+import { Chess } from 'chess.js';
+
+// Records what is sent and lets the test answer as the engine
+class StubTransport implements EngineTransport {
+  public sent: string[] = [];
+  public terminated = false;
+  private handler: (output: string) => void = () => {};
+
+  send(command: string): void {
+    this.sent.push(command);
+  }
+
+  setMessageHandler(handler: (output: string) => void): void {
+    this.handler = handler;
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  receive(...lines: string[]): void {
+    this.handler(lines.join('\n'));
+  }
+
+  // Takes the commands sent so far
+  take(): string[] {
+    const sent = this.sent;
+    this.sent = [];
+    return sent;
+  }
+}
+
+const SICILIAN_FEN = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq c6 0 2';
+
+describe('UciEngine', () => {
+  let transport: StubTransport;
+  let engine: UciEngine;
+
+  const startEngine = () => {
+    engine.start();
+    transport.receive('id name Stockfish 16', 'option name Hash type spin default 16 min 1 max 1024', 'uciok');
+    transport.receive('readyok');
+    transport.take();
+  };
+
+  beforeEach(() => {
+    transport = new StubTransport();
+    engine = new UciEngine(transport);
+  });
+
+  it('should send options set before start once the engine has answered uciok', () => {
+    const onStarted = jest.fn();
+    engine.addObserver({ onStarted });
+
+    engine.start();
+    engine.setOption('Hash', 64);
+    expect(transport.take()).toEqual(['uci']);
+
+    transport.receive('id name Stockfish 16', 'option name Hash type spin default 16 min 1 max 1024', 'uciok');
+    expect(transport.take()).toEqual(['setoption name Hash value 64', 'isready']);
+    expect(onStarted).toHaveBeenCalled();
+    expect(engine.getName()).toBe('Stockfish 16');
+    expect(engine.getOptions()).toEqual([{ name: 'Hash', type: 'spin', default: 16, min: 1, max: 1024 }]);
+
+    transport.receive('readyok');
+    expect(engine.getState()).toBe('ready');
+  });
+
+  it('should wait for readyok before go', () => {
+    startEngine();
+
+    engine.search({ fen: SICILIAN_FEN, go: { depth: 20 } });
+    expect(transport.take()).toEqual([`position fen ${SICILIAN_FEN}`, 'isready']);
+    expect(engine.getState()).toBe('syncing');
+
+    transport.receive('readyok');
+    expect(transport.take()).toEqual(['go depth 20']);
+    expect(engine.getState()).toBe('searching');
+  });
+
+  it('should stop a running search and drop its output before starting the next', () => {
+    const onInfo = jest.fn();
+    engine.addObserver({ onInfo });
+    startEngine();
+    engine.search({ fen: SICILIAN_FEN, go: { infinite: true } });
+    transport.receive('readyok');
+    transport.take();
+
+    engine.search({ fen: SICILIAN_FEN, moves: ['g1f3'], go: { depth: 10 } });
+    expect(transport.take()).toEqual(['stop']);
+
+    transport.receive('info depth 30 score cp 20 pv g1f3');
+    expect(onInfo).not.toHaveBeenCalled();
+
+    transport.receive('bestmove g1f3');
+    expect(transport.take()).toEqual([`position fen ${SICILIAN_FEN} moves g1f3`, 'isready']);
+
+    transport.receive('readyok', 'info depth 1 score cp 10 pv d7d6');
+    expect(transport.take()).toEqual(['go depth 10']);
+    expect(onInfo).toHaveBeenCalledWith({ depth: 1, score: { type: 'cp', value: 10 }, pv: ['d7d6'] });
+  });
+
+  it('should hold options back while searching', () => {
+    startEngine();
+    engine.search({ fen: SICILIAN_FEN, go: { infinite: true } });
+    transport.receive('readyok');
+    transport.take();
+
+    engine.setOption('MultiPV', 3);
+    expect(transport.take()).toEqual([]);
+
+    engine.stop();
+    expect(transport.take()).toEqual(['stop']);
+    transport.receive('bestmove g1f3');
+    expect(transport.take()).toEqual(['setoption name MultiPV value 3']);
+    expect(engine.getState()).toBe('ready');
+  });
+
+  it('should report best moves and state changes', () => {
+    const observer: UciEngineObserver = { onBestMove: jest.fn(), onStateChange: jest.fn() };
+    engine.addObserver(observer);
+    startEngine();
+
+    engine.search({ fen: SICILIAN_FEN, go: { depth: 1 } });
+    transport.receive('readyok', 'bestmove g1f3 ponder d7d6');
+
+    expect(observer.onBestMove).toHaveBeenCalledWith('g1f3', 'd7d6');
+    expect(observer.onStateChange).toHaveBeenLastCalledWith('ready');
+
+    engine.removeObserver(observer);
+    engine.quit();
+    expect(transport.take().pop()).toBe('quit');
+    expect(transport.terminated).toBe(true);
+  });
+
+  describe('ChessEngineService', () => {
+    it('should turn engine lines into analysis of the analysed position', () => {
+      const onAnalysis = jest.fn();
+      const onVersion = jest.fn();
+      const service = new ChessEngineService({ ...DEFAULT_ENGINE_SETTINGS, depth: 12, options: { MultiPV: 1 } }, () => transport);
+      service.initialize(onAnalysis, jest.fn(), onVersion);
+      transport.receive('id name Stockfish 16', 'uciok', 'readyok');
+      expect(onVersion).toHaveBeenCalledWith('16');
+
+      service.startAnalysis(new Chess(SICILIAN_FEN));
+      transport.receive('readyok');
+      expect(transport.sent).toContain('go depth 12');
+
+      transport.receive('info depth 12 multipv 1 score cp 31 nodes 1000 nps 500 pv g1f3 d7d6 bmc 0.1');
+      expect(onAnalysis).toHaveBeenLastCalledWith([
+        expect.objectContaining({ move: 'Nf3', score: 0.31, depth: 12, pv: ['Nf3', 'd6'] })
+      ]);
+
+      service.cleanup();
+      expect(transport.terminated).toBe(true);
+    });
+
+    it('should keep lines by rank and give scores from White\'s point of view', () => {
+      const onAnalysis = jest.fn();
+      const service = new ChessEngineService({ ...DEFAULT_ENGINE_SETTINGS, depth: 12, options: { MultiPV: 2 } }, () => transport);
+      service.initialize(onAnalysis, jest.fn(), jest.fn());
+      transport.receive('uciok', 'readyok');
+
+      // Black to move after 1.e4
+      service.startAnalysis(new Chess('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'));
+      transport.receive('readyok');
+      transport.receive(
+        'info depth 10 multipv 1 score cp 20 pv c7c5 g1f3',
+        'info depth 10 multipv 2 score cp 10 pv e7e5',
+        'info depth 11 multipv 1 score mate 3 pv e7e5 g1f3'
+      );
+
+      const lines: AnalysisMove[] = onAnalysis.mock.calls[onAnalysis.mock.calls.length - 1][0];
+      expect(lines.map(line => [line.multipv, line.move, line.score, line.mate])).toEqual([
+        [1, 'e5', 0, -3],
+        [2, 'e5', -0.1, undefined]
+      ]);
+      expect(lines[0]).toEqual(expect.objectContaining({ turn: 'b', moveNumber: 1, pv: ['e5', 'Nf3'] }));
+
+      expect(formatScore(lines[0], 'white')).toBe('-M3');
+      expect(formatScore(lines[0], 'sideToMove')).toBe('+M3');
+      expect(formatScore(lines[1], 'white', 1)).toBe('-0.1');
+      expect(formatScore(lines[1], 'sideToMove')).toBe('+0.10');
+    });
+
+    it('should show win, draw and loss chances where the engine gives them', () => {
+      const onAnalysis = jest.fn();
+      const service = new ChessEngineService(DEFAULT_ENGINE_SETTINGS, () => transport);
+      service.initialize(onAnalysis, jest.fn(), jest.fn());
+      transport.receive('option name UCI_ShowWDL type check default false', 'uciok');
+      expect(transport.take()).toContain('setoption name UCI_ShowWDL value true');
+      transport.receive('readyok');
+
+      // Black to move after 1.e4
+      service.startAnalysis(new Chess('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'));
+      transport.receive('readyok', 'info depth 20 multipv 1 score cp -30 wdl 50 850 100 pv e7e5');
+
+      const [line]: AnalysisMove[] = onAnalysis.mock.calls[onAnalysis.mock.calls.length - 1][0];
+      expect(line.wdl).toEqual([100, 850, 50]);
+      expect(getExpectedScore(line, 'white')).toBeCloseTo(0.525);
+      expect(getExpectedScore(line, 'sideToMove')).toBeCloseTo(0.475);
+    });
+
+    it('should search the way the settings say', () => {
+      const service = new ChessEngineService({ ...DEFAULT_ENGINE_SETTINGS, searchMode: 'infinite' }, () => transport);
+      service.initialize(jest.fn(), jest.fn(), jest.fn());
+      transport.receive('uciok', 'readyok');
+      transport.take();
+
+      // Moves that are not legal in the position are not searched
+      const position = new Chess(SICILIAN_FEN);
+      service.startAnalysis(position, { searchMoves: ['g1f3', 'e2e4', 'd2d4'] });
+      transport.receive('readyok');
+      expect(transport.take()).toEqual([`position fen ${position.fen()}`, 'isready', 'go infinite searchmoves g1f3 d2d4']);
+
+      service.updateSettings({ ...DEFAULT_ENGINE_SETTINGS, searchMode: 'movetime', movetime: 5000 });
+      transport.receive('bestmove g1f3');
+      service.startAnalysis(position, { threat: true });
+      transport.receive('readyok');
+      expect(transport.take()).toEqual([
+        'stop',
+        `position fen ${getThreatFen(SICILIAN_FEN)}`,
+        'isready',
+        'go movetime 5000'
+      ]);
+    });
+
+    it('should pass the move to the other side for threats, unless in check', () => {
+      expect(getThreatFen(SICILIAN_FEN)).toBe('rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2');
+      expect(getThreatFen('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1'))
+        .toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2');
+      expect(getThreatFen('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3')).toBeNull();
+    });
+
+    it('should only set the options the engine has, in the form they take', () => {
+      const onOptions = jest.fn();
+      const service = new ChessEngineService(
+        { ...DEFAULT_ENGINE_SETTINGS, depth: 12, options: { threads: 2.4, Hash: 99999, Contempt: 10, 'Analysis Contempt': 'both' } },
+        () => transport
+      );
+      service.initialize(jest.fn(), jest.fn(), jest.fn(), onOptions);
+      transport.receive(
+        'option name Threads type spin default 1 min 1 max 512',
+        'option name Hash type spin default 16 min 1 max 33554432',
+        'option name Analysis Contempt type combo default Both var Off var White var Black var Both',
+        'option name UCI_AnalyseMode type check default false',
+        'uciok'
+      );
+
+      expect(transport.take()).toEqual([
+        'uci',
+        'setoption name UCI_AnalyseMode value true',
+        'setoption name Threads value 2',
+        'setoption name Hash value 99999',
+        'setoption name Analysis Contempt value Both',
+        'isready'
+      ]);
+      expect(onOptions).toHaveBeenCalledWith(expect.arrayContaining([
+        expect.objectContaining({ name: 'Threads', type: 'spin', default: 1, min: 1, max: 512 })
+      ]));
+    });
+
+    it('should send only the options that changed, and defaults for those removed', () => {
+      const service = new ChessEngineService({ ...DEFAULT_ENGINE_SETTINGS, depth: 12, options: { Threads: 2, Hash: 32 } }, () => transport);
+      service.initialize(jest.fn(), jest.fn(), jest.fn());
+      transport.receive(
+        'option name Threads type spin default 1 min 1 max 512',
+        'option name Hash type spin default 16 min 1 max 1024',
+        'option name Clear Hash type button',
+        'uciok',
+        'readyok'
+      );
+      transport.take();
+
+      service.updateSettings({ ...DEFAULT_ENGINE_SETTINGS, depth: 20, options: { Threads: 4 } });
+      expect(transport.take()).toEqual(['setoption name Threads value 4', 'setoption name Hash value 16']);
+
+      service.pressButton('clear hash');
+      service.pressButton('Threads');
+      expect(transport.take()).toEqual(['setoption name Clear Hash']);
+    });
+  });
+});
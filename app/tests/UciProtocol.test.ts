@@ -0,0 +1,169 @@
+import {
+  buildGoCommand,
+  buildPositionCommand,
+  buildSetOptionCommand,
+  findOption,
+  normalizeOptionValue,
+  parseUciMessage,
+  uciMovesToSan,
+  type UciOption
+} from '../services/UciProtocol';
+
+const SICILIAN_FEN = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq c6 0 2';
+
+describe('UciProtocol', () => {
+  describe('info', () => {
+    it('should read every field of an analysis line', () => {
+      const message = parseUciMessage(
+        'info depth 22 seldepth 30 multipv 2 score cp -34 upperbound wdl 40 900 60 nodes 1500000 nps 750000 ' +
+        'hashfull 120 tbhits 0 time 2000 pv e7e5 g1f3 b8c6'
+      );
+
+      expect(message).toEqual({
+        type: 'info',
+        info: {
+          depth: 22,
+          seldepth: 30,
+          multipv: 2,
+          score: { type: 'cp', value: -34, bound: 'upper' },
+          wdl: [40, 900, 60],
+          nodes: 1500000,
+          nps: 750000,
+          hashfull: 120,
+          tbhits: 0,
+          time: 2000,
+          pv: ['e7e5', 'g1f3', 'b8c6']
+        }
+      });
+    });
+
+    it('should end the pv at the first token that is not a move', () => {
+      const message = parseUciMessage('info depth 10 score mate 3 pv e2e4 e7e5 d1h5 bmc 0.25 string done');
+
+      expect(message.type === 'info' && message.info.pv).toEqual(['e2e4', 'e7e5', 'd1h5']);
+      expect(message.type === 'info' && message.info.string).toBe('done');
+      expect(message.type === 'info' && message.info.score).toEqual({ type: 'mate', value: 3 });
+    });
+
+    it('should read the current move, lines and free text', () => {
+      expect(parseUciMessage('info currmove e2e4 currmovenumber 1')).toEqual({
+        type: 'info',
+        info: { currmove: 'e2e4', currmovenumber: 1 }
+      });
+      expect(parseUciMessage('info currline 1 e2e4 e7e5 refutation d1h5 g6h5')).toEqual({
+        type: 'info',
+        info: { currline: ['e2e4', 'e7e5'], refutation: ['d1h5', 'g6h5'] }
+      });
+      expect(parseUciMessage('info string NNUE evaluation using nn.nnue depth 5')).toEqual({
+        type: 'info',
+        info: { string: 'NNUE evaluation using nn.nnue depth 5' }
+      });
+    });
+  });
+
+  describe('other messages', () => {
+    it('should read the engine id', () => {
+      expect(parseUciMessage('id name Stockfish 16.1')).toEqual({ type: 'id', name: 'Stockfish 16.1' });
+      expect(parseUciMessage('id author the Stockfish developers')).toEqual({
+        type: 'id',
+        author: 'the Stockfish developers'
+      });
+    });
+
+    it('should read best moves', () => {
+      expect(parseUciMessage('bestmove e2e4 ponder e7e5')).toEqual({ type: 'bestmove', move: 'e2e4', ponder: 'e7e5' });
+      expect(parseUciMessage('bestmove (none)')).toEqual({ type: 'bestmove', move: null, ponder: undefined });
+    });
+
+    it('should read options of every type', () => {
+      expect(parseUciMessage('option name Hash type spin default 16 min 1 max 33554432')).toEqual({
+        type: 'option',
+        option: { name: 'Hash', type: 'spin', default: 16, min: 1, max: 33554432 }
+      });
+      expect(parseUciMessage('option name UCI_ShowWDL type check default false')).toEqual({
+        type: 'option',
+        option: { name: 'UCI_ShowWDL', type: 'check', default: false }
+      });
+      expect(parseUciMessage('option name Clear Hash type button')).toEqual({
+        type: 'option',
+        option: { name: 'Clear Hash', type: 'button' }
+      });
+      expect(parseUciMessage('option name Style type combo default Normal var Solid var Normal var Risky')).toEqual({
+        type: 'option',
+        option: { name: 'Style', type: 'combo', default: 'Normal', vars: ['Solid', 'Normal', 'Risky'] }
+      });
+      expect(parseUciMessage('option name Debug Log File type string default <empty>')).toEqual({
+        type: 'option',
+        option: { name: 'Debug Log File', type: 'string', default: '' }
+      });
+    });
+
+    it('should recognise uciok and readyok and pass on anything else', () => {
+      expect(parseUciMessage('uciok')).toEqual({ type: 'uciok' });
+      expect(parseUciMessage('readyok')).toEqual({ type: 'readyok' });
+      expect(parseUciMessage('Stockfish 16 by the Stockfish developers')).toEqual({
+        type: 'unknown',
+        line: 'Stockfish 16 by the Stockfish developers'
+      });
+    });
+  });
+
+  describe('commands', () => {
+    it('should build options and positions', () => {
+      expect(buildSetOptionCommand('MultiPV', 3)).toBe('setoption name MultiPV value 3');
+      expect(buildSetOptionCommand('Clear Hash')).toBe('setoption name Clear Hash');
+      expect(buildPositionCommand()).toBe('position startpos');
+      expect(buildPositionCommand(undefined, ['e2e4'])).toBe('position startpos moves e2e4');
+      expect(buildPositionCommand(SICILIAN_FEN)).toBe(`position fen ${SICILIAN_FEN}`);
+    });
+
+    it('should build searches with searchmoves last', () => {
+      expect(buildGoCommand()).toBe('go');
+      expect(buildGoCommand({ infinite: true })).toBe('go infinite');
+      expect(buildGoCommand({ searchmoves: ['e2e4', 'd2d4'], depth: 20, movetime: 5000 }))
+        .toBe('go depth 20 movetime 5000 searchmoves e2e4 d2d4');
+      expect(buildGoCommand({ wtime: 60000, btime: 60000, winc: 1000, binc: 1000 }))
+        .toBe('go wtime 60000 btime 60000 winc 1000 binc 1000');
+    });
+  });
+
+  describe('options', () => {
+    const options: UciOption[] = [
+      { name: 'Threads', type: 'spin', default: 1, min: 1, max: 512 },
+      { name: 'Ponder', type: 'check', default: false },
+      { name: 'Analysis Contempt', type: 'combo', default: 'Both', vars: ['Off', 'White', 'Black', 'Both'] },
+      { name: 'SyzygyPath', type: 'string', default: '' },
+      { name: 'Clear Hash', type: 'button' }
+    ];
+
+    it('should find options whatever the case of their name', () => {
+      expect(findOption(options, 'threads')?.name).toBe('Threads');
+      expect(findOption(options, 'Hash')).toBeUndefined();
+    });
+
+    it('should put values in the form each option takes', () => {
+      expect(normalizeOptionValue(options[0], 1000)).toBe(512);
+      expect(normalizeOptionValue(options[0], '3.6')).toBe(4);
+      expect(normalizeOptionValue(options[0], 'many')).toBeUndefined();
+      expect(normalizeOptionValue(options[1], 'true')).toBe(true);
+      expect(normalizeOptionValue(options[2], 'white')).toBe('White');
+      expect(normalizeOptionValue(options[2], 'Everyone')).toBeUndefined();
+      expect(normalizeOptionValue(options[3], 42)).toBe('42');
+      expect(normalizeOptionValue(options[4], true)).toBeUndefined();
+    });
+  });
+
+  describe('uciMovesToSan', () => {
+    it('should play the moves from the given position', () => {
+      expect(uciMovesToSan(SICILIAN_FEN, ['g1f3', 'd7d6', 'd2d4'])).toEqual(['Nf3', 'd6', 'd4']);
+    });
+
+    it('should stop at the first illegal move', () => {
+      expect(uciMovesToSan(SICILIAN_FEN, ['g1f3', 'g1f3', 'd2d4'])).toEqual(['Nf3']);
+    });
+
+    it('should read promotions', () => {
+      expect(uciMovesToSan('8/P7/8/8/8/8/8/k6K w - - 0 1', ['a7a8n'])).toEqual(['a8=N']);
+    });
+  });
+});
@@ -0,0 +1,9 @@
+import { PgnService } from '../services/PgnService';
+import { type PgnParseRequest, type PgnParseResponse } from '../services/PgnImportService';
+
+// Parses batches of games for PgnImportService off the main thread
+self.onmessage = (event: MessageEvent<PgnParseRequest>) => {
+  const { id, gameTexts, mode } = event.data;
+  const response: PgnParseResponse = { id, ...PgnService.getInstance().parseGames(gameTexts, mode) };
+  self.postMessage(response);
+};
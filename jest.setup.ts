@@ -1,5 +1,6 @@
 // Learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
 
 // Mock window.matchMedia
 Object.defineProperty(window, 'matchMedia', {
@@ -14,4 +15,7 @@ Object.defineProperty(window, 'matchMedia', {
         removeEventListener: jest.fn(),
         dispatchEvent: jest.fn(),
     })),
-}); 
\ No newline at end of file
+}); 
+
+// jsdom does not provide the text codecs used when streaming files
+Object.assign(global, { TextDecoder, TextEncoder });